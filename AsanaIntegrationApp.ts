@@ -8,15 +8,20 @@ import {
     IPersistence,
     IRead,
 } from '@rocket.chat/apps-engine/definition/accessors';
+import { ApiSecurity, ApiVisibility } from '@rocket.chat/apps-engine/definition/api';
 import { App } from '@rocket.chat/apps-engine/definition/App';
 import { IAppInfo } from '@rocket.chat/apps-engine/definition/metadata';
-import { ApiVisibility, ApiSecurity } from '@rocket.chat/apps-engine/definition/api';
-import { settings } from './settings/Settings';
-import AsanaOAuth2Service from './lib/AsanaOAuth2Service';
-import AsanaApiService from './lib/AsanaApiService';
+import { UIActionButtonContext } from '@rocket.chat/apps-engine/definition/ui';
+import { IUIKitResponse, UIKitActionButtonInteractionContext, UIKitBlockInteractionContext, UIKitViewSubmitInteractionContext } from '@rocket.chat/apps-engine/definition/uikit';
 import { AsanaCommand } from './commands/AsanaCommand';
 import { AsanaOAuthEndpoint } from './endpoints/AsanaOAuthEndpoint';
 import { AsanaWebhookEndpoint } from './endpoints/AsanaWebhookEndpoint';
+import { ActionButton, ExecuteActionButtonHandler } from './handlers/ExecuteActionButtonHandler';
+import { ExecuteBlockActionHandler } from './handlers/ExecuteBlockActionHandler';
+import { ExecuteViewSubmitHandler } from './handlers/ExecuteViewSubmitHandler';
+import AsanaApiService from './lib/AsanaApiService';
+import AsanaOAuth2Service from './lib/AsanaOAuth2Service';
+import { settings } from './settings/Settings';
 
 export class AsanaIntegrationApp extends App {
     private oauth2Service: AsanaOAuth2Service;
@@ -24,7 +29,7 @@ export class AsanaIntegrationApp extends App {
 
     constructor(info: IAppInfo, logger: ILogger, accessors: IAppAccessors) {
         super(info, logger, accessors);
-        
+
         this.oauth2Service = new AsanaOAuth2Service(this);
         this.apiService = new AsanaApiService(this);
     }
@@ -32,7 +37,7 @@ export class AsanaIntegrationApp extends App {
     public async initialize(configurationExtend: IConfigurationExtend, environmentRead: IEnvironmentRead): Promise<void> {
         try {
             await this.extendConfiguration(configurationExtend, environmentRead);
-            
+
             // check settings
             const clientId = await environmentRead.getSettings().getValueById('asana_client_id');
             const clientSecret = await environmentRead.getSettings().getValueById('asana_client_secret');
@@ -44,30 +49,9 @@ export class AsanaIntegrationApp extends App {
         }
     }
 
-    protected async extendConfiguration(configuration: IConfigurationExtend, environmentRead: IEnvironmentRead): Promise<void> {
-        // register settings
-        await Promise.all(settings.map((setting) => configuration.settings.provideSetting(setting)));
-        
-        // register commands
-        await configuration.slashCommands.provideSlashCommand(new AsanaCommand(this));
-        
-        // register API endpoints
-        await configuration.api.provideApi({
-            visibility: ApiVisibility.PUBLIC,
-            security: ApiSecurity.UNSECURE,
-            endpoints: [
-                new AsanaOAuthEndpoint(this),
-                new AsanaWebhookEndpoint(this),
-            ],
-        });
-        
-        // setup OAuth2 service
-        await this.oauth2Service.setup(configuration);
-    }
-
     public async onSettingUpdated(setting: any, configurationModify: any, read: any, http: any): Promise<void> {
         this.getLogger().debug(`Setting updated: ${setting.id}`);
-        
+
         // when Asana related settings are updated, reinitialize OAuth2 service
         const asanaSettings = ['asana_client_id', 'asana_client_secret', 'asana_redirect_uri'];
         if (asanaSettings.includes(setting.id)) {
@@ -78,18 +62,18 @@ export class AsanaIntegrationApp extends App {
 
     public async onEnable(environmentRead: IEnvironmentRead, configurationModify: any): Promise<boolean> {
         this.getLogger().debug('Asana Integration App enabled');
-        
+
         try {
             // check settings
             const clientId = await environmentRead.getSettings().getValueById('asana_client_id');
             const clientSecret = await environmentRead.getSettings().getValueById('asana_client_secret');
             const redirectUri = await environmentRead.getSettings().getValueById('asana_redirect_uri');
-            
+
             if (!clientId || !clientSecret || !redirectUri) {
                 this.getLogger().warn('Asana settings not configured. OAuth2 service will not be initialized until settings are configured.');
                 return true;
             }
-            
+
             await this.oauth2Service.setup(configurationModify.getConfigurationExtender());
             this.getLogger().debug('OAuth2 service initialized on app enable');
             return true;
@@ -103,6 +87,39 @@ export class AsanaIntegrationApp extends App {
         this.getLogger().debug('Asana Integration App disabled');
     }
 
+    public async executeViewSubmitHandler(
+        context: UIKitViewSubmitInteractionContext,
+        read: IRead,
+        http: IHttp,
+        persistence: IPersistence,
+        modify: IModify,
+    ): Promise<IUIKitResponse> {
+        const handler = new ExecuteViewSubmitHandler(this, read, http, persistence, modify);
+        return await handler.run(context);
+    }
+
+    public async executeBlockActionHandler(
+        context: UIKitBlockInteractionContext,
+        read: IRead,
+        http: IHttp,
+        persistence: IPersistence,
+        modify: IModify,
+    ): Promise<IUIKitResponse> {
+        const handler = new ExecuteBlockActionHandler(this, read, http, persistence, modify);
+        return await handler.run(context);
+    }
+
+    public async executeActionButtonHandler(
+        context: UIKitActionButtonInteractionContext,
+        read: IRead,
+        http: IHttp,
+        persistence: IPersistence,
+        modify: IModify,
+    ): Promise<IUIKitResponse> {
+        const handler = new ExecuteActionButtonHandler(this, read, http, persistence, modify);
+        return await handler.run(context);
+    }
+
     public getOAuth2Service(): AsanaOAuth2Service {
         return this.oauth2Service;
     }
@@ -110,4 +127,37 @@ export class AsanaIntegrationApp extends App {
     public getApiService(): AsanaApiService {
         return this.apiService;
     }
+
+    protected async extendConfiguration(configuration: IConfigurationExtend, environmentRead: IEnvironmentRead): Promise<void> {
+        // register settings
+        await Promise.all(settings.map((setting) => configuration.settings.provideSetting(setting)));
+
+        // register commands
+        await configuration.slashCommands.provideSlashCommand(new AsanaCommand(this));
+
+        // register message action buttons
+        configuration.ui.registerButton({
+            actionId: ActionButton.CreateTaskFromMessage,
+            labelI18n: 'Create Asana task from message',
+            context: UIActionButtonContext.MESSAGE_ACTION,
+        });
+        configuration.ui.registerButton({
+            actionId: ActionButton.AttachFileToTask,
+            labelI18n: 'Attach file to Asana task',
+            context: UIActionButtonContext.MESSAGE_ACTION,
+        });
+
+        // register API endpoints
+        await configuration.api.provideApi({
+            visibility: ApiVisibility.PUBLIC,
+            security: ApiSecurity.UNSECURE,
+            endpoints: [
+                new AsanaOAuthEndpoint(this),
+                new AsanaWebhookEndpoint(this),
+            ],
+        });
+
+        // setup OAuth2 service
+        await this.oauth2Service.setup(configuration);
+    }
 }
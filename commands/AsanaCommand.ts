@@ -1,11 +1,75 @@
-import { IHttp, IModify, IPersistence, IRead, ILogger } from '@rocket.chat/apps-engine/definition/accessors';
-import { ISlashCommand, SlashCommandContext } from '@rocket.chat/apps-engine/definition/slashcommands';
-import { IUser } from '@rocket.chat/apps-engine/definition/users';
-import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import { IHttp, ILogger, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
 import { App } from '@rocket.chat/apps-engine/definition/App';
-import { AsanaApiService } from '../lib/AsanaApiService';
-import { AsanaOAuth2Service } from '../lib/AsanaOAuth2Service';
+import { IMessageFile } from '@rocket.chat/apps-engine/definition/messages';
 import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import {
+    ISlashCommand,
+    ISlashCommandPreview,
+    ISlashCommandPreviewItem,
+    SlashCommandContext,
+    SlashCommandPreviewItemType,
+} from '@rocket.chat/apps-engine/definition/slashcommands';
+import { BlockBuilder } from '@rocket.chat/apps-engine/definition/uikit';
+import { IUser } from '@rocket.chat/apps-engine/definition/users';
+import { AsanaApiService, SECTION_TASK_LIMIT } from '../lib/AsanaApiService';
+import { AsanaErrorKind, isAsanaError } from '../lib/AsanaErrors';
+import { IAsanaProject, IAsanaSection, IAsanaTag, IAsanaTask, IAsanaWebhook } from '../lib/AsanaModels';
+import { AsanaOAuth2Service } from '../lib/AsanaOAuth2Service';
+import { getCustomFieldValues, ICustomFieldFilter, matchesCustomFieldFilters, parseCustomFieldFilters } from '../lib/CustomFields';
+import { formatDueInfo, isOverdue, parseDueDate } from '../lib/DateUtils';
+import { markdownToAsanaHtml } from '../lib/MarkdownConverter';
+import {
+    clearNotificationFilter,
+    formatNotificationFilter,
+    getNotificationFilter,
+    NOTIFICATION_EVENT_TYPES,
+    parseNotificationFilter,
+    saveNotificationFilter,
+} from '../lib/NotificationFilters';
+import {
+    clearRoomNotificationMode,
+    getNotificationMode,
+    getRoomNotificationMode,
+    isNotificationMode,
+    NotificationMode,
+    saveRoomNotificationMode,
+} from '../lib/NotificationMode';
+import { canManageRoom } from '../lib/RoomPermissions';
+import { attachMessageFile } from '../lib/TaskAttachments';
+import { addSubtaskChecklistBlocks, buildTaskCard, getTaskLink, parseTaskReference, sendTaskCard } from '../lib/TaskCard';
+import {
+    createWebhookKey,
+    getWebhookTarget,
+    hasWebhookKey,
+    linkWebhookSecret,
+    registerPendingWebhook,
+    removePendingWebhook,
+    removeWebhookSecret,
+} from '../lib/WebhookSecrets';
+import {
+    addSubscription,
+    getSubscriptions,
+    IWebhookSubscription,
+    removeRoomSubscription,
+    setSubscriptionsWebhook,
+} from '../lib/WebhookSubscriptions';
+import {
+    clearRoomWorkspace,
+    clearUserWorkspace,
+    getRoomWorkspace,
+    getUserWorkspace,
+    resolveWorkspaceId,
+    saveRoomWorkspace,
+    saveUserWorkspace,
+} from '../lib/WorkspaceResolver';
+import { createTaskModal, ICreateTaskModalState, saveCreateTaskState } from '../modals/CreateTaskModal';
+
+const NOTIFICATION_MODE_LABELS: { [mode in NotificationMode]: string } = {
+    [NotificationMode.Messages]: 'a new message per event',
+    [NotificationMode.Threads]: 'one thread per task',
+    [NotificationMode.LiveCards]: 'one live card per task, edited on every change',
+};
 
 // Define an interface with the methods we need
 interface IAsanaApp extends App {
@@ -14,49 +78,11 @@ interface IAsanaApp extends App {
     getApiService(): AsanaApiService;
 }
 
-// Task type definition
-interface AsanaTask {
-    gid: string;
-    name: string;
-    completed: boolean;
-    due_on?: string;
-    notes?: string;
-    projects?: Array<{
-        gid: string;
-        name: string;
-    }>;
-    assignee?: {
-        gid: string;
-        name: string;
-    };
-    created_at?: string;
-    modified_at?: string;
-    html_notes?: string;
-    custom_fields?: any[];
-}
-
-interface AsanaProject {
-    gid: string;
-    name: string;
-    public?: boolean;
-    owner?: {
-        gid: string;
-    };
-}
-
-interface WebhookMapping {
-    webhookId: string;
-    resourceId: string;
-    roomId: string;
-    createdBy: string;
-    createdAt: string;
-}
-
 export class AsanaCommand implements ISlashCommand {
     public command = 'asana';
     public i18nDescription = 'Interact with Asana';
-    public i18nParamsExample = 'auth | tasks | projects | task <task_id> | summary | webhook | logout | help';
-    public providesPreview = false;
+    public i18nParamsExample = 'auth | tasks | projects | project <project_id> | task <task_id> | subtask add | create [title] | complete | reopen | rename | due | assign | move | tag | comment | attach | search | summary | webhook | notify | workspace | logout | help';
+    public providesPreview = true;
 
     constructor(private readonly app: IAsanaApp) {}
 
@@ -71,23 +97,69 @@ export class AsanaCommand implements ISlashCommand {
                     await this.authCommand(sender, room, read, modify);
                     break;
                 case 'tasks':
-                    await this.tasksCommand(sender, room, read, modify, http);
+                    await this.tasksCommand(sender, room, params, read, modify, http, persis);
                     break;
                 case 'projects':
-                    await this.projectsCommand(sender, room, read, modify, http);
+                    await this.projectsCommand(sender, room, params, read, modify, http, persis);
+                    break;
+                case 'project':
+                    if (params.length > 0) {
+                        await this.projectBoardCommand(sender, room, params[0], read, modify, http, persis);
+                    } else {
+                        await this.sendNotification(modify, room, sender, 'Please provide a project ID: `/asana project <project_id>`');
+                    }
                     break;
                 case 'task':
                     if (params.length > 0) {
-                        await this.taskCommand(sender, room, params[0], read, modify, http);
+                        await this.taskCommand(sender, room, params[0], read, modify, http, persis);
                     } else {
                         await this.sendNotification(modify, room, sender, 'Please provide a task ID: `/asana task <task_id>`');
                     }
                     break;
+                case 'subtask':
+                    await this.subtaskCommand(sender, room, params, read, modify, http, persis);
+                    break;
+                case 'complete':
+                case 'reopen':
+                case 'rename':
+                case 'due':
+                    await this.updateTaskCommand(sender, room, command.toLowerCase(), params, read, modify, http, persis);
+                    break;
+                case 'assign':
+                    await this.assignCommand(sender, room, params, read, modify, http, persis);
+                    break;
+                case 'unassign':
+                    await this.assignCommand(sender, room, [params[0], 'none'], read, modify, http, persis);
+                    break;
+                case 'move':
+                    await this.moveCommand(sender, room, params, read, modify, http, persis);
+                    break;
+                case 'tag':
+                    await this.tagCommand(sender, room, params, read, modify, http, persis);
+                    break;
+                case 'comment':
+                    await this.commentCommand(sender, room, params, read, modify, http, persis);
+                    break;
+                case 'attach':
+                    await this.attachCommand(context, params, read, modify, http, persis);
+                    break;
+                case 'search':
+                    await this.searchCommand(sender, room, params, read, modify, http, persis);
+                    break;
+                case 'create':
+                    await this.createCommand(context, params, read, modify, http, persis);
+                    break;
                 case 'webhook':
                     await this.webhookCommand(sender, room, params, read, modify, http, persis);
                     break;
+                case 'workspace':
+                    await this.workspaceCommand(sender, room, params, read, modify, http, persis);
+                    break;
+                case 'notify':
+                    await this.notifyCommand(sender, room, params, read, modify, http, persis);
+                    break;
                 case 'summary':
-                    await this.summaryCommand(sender, room, read, modify, http);
+                    await this.summaryCommand(sender, room, read, modify, http, persis);
                     break;
                 case 'logout':
                     await this.logoutCommand(sender, room, read, modify, persis);
@@ -106,6 +178,116 @@ export class AsanaCommand implements ISlashCommand {
         }
     }
 
+    /**
+     * Suggest tasks (task, complete, assign) or projects (project, webhook create) matching what has been typed so far
+     */
+    public async previewer(context: SlashCommandContext, read: IRead, modify: IModify, http: IHttp, persis: IPersistence): Promise<ISlashCommandPreview> {
+        const preview: ISlashCommandPreview = { i18nTitle: 'Asana', items: [] };
+        const target = this.getPreviewTarget(context.getArguments());
+
+        // nothing to look up, or a gid was typed already
+        if (!target || target.query.length < 2 || /^\d+$/.test(target.query)) {
+            return preview;
+        }
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(context.getSender(), read, persis);
+            if (!tokenInfo) {
+                return preview;
+            }
+
+            const apiService = this.app.getApiService();
+            const workspaceId = await resolveWorkspaceId(apiService, tokenInfo.access_token, read, http, context.getSender(), context.getRoom());
+            if (!workspaceId) {
+                return preview;
+            }
+
+            const results = await apiService.typeahead(tokenInfo.access_token, workspaceId, target.resourceType, target.query, http, 'name,completed', 10);
+            preview.i18nTitle = target.resourceType === 'project' ? 'Asana projects' : 'Asana tasks';
+            preview.items = results.map((result) => ({
+                id: result.gid,
+                type: SlashCommandPreviewItemType.TEXT,
+                value: `${result.completed ? '✅ ' : ''}${result.name}`,
+            }));
+        } catch (error) {
+            this.app.getLogger().error('Preview error:', error);
+        }
+
+        return preview;
+    }
+
+    /**
+     * Run the typed command with the picked task or project gid in place of the partial name
+     */
+    public async executePreviewItem(
+        item: ISlashCommandPreviewItem,
+        context: SlashCommandContext,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const [command] = context.getArguments();
+        const target = this.getPreviewTarget(context.getArguments());
+        const sender = context.getSender();
+        const room = context.getRoom();
+
+        try {
+            switch (command.toLowerCase()) {
+                case 'task':
+                    await this.taskCommand(sender, room, item.id, read, modify, http, persis);
+                    break;
+                case 'project':
+                    await this.projectBoardCommand(sender, room, item.id, read, modify, http, persis);
+                    break;
+                case 'complete':
+                    await this.updateTaskCommand(sender, room, 'complete', [item.id], read, modify, http, persis);
+                    break;
+                case 'assign':
+                    await this.assignCommand(sender, room, [item.id, target && target.assignee ? target.assignee : 'me'], read, modify, http, persis);
+                    break;
+                case 'webhook':
+                    await this.webhookCommand(sender, room, ['create', item.id], read, modify, http, persis);
+                    break;
+            }
+        } catch (error) {
+            this.app.getLogger().error('Execute preview item error:', error);
+            await this.sendNotification(modify, room, sender, `Error executing command: ${error.message}`);
+        }
+    }
+
+    /**
+     * Work out what a preview should look up from the command arguments
+     */
+    private getPreviewTarget(args: Array<string>): { resourceType: string; query: string; assignee?: string } | undefined {
+        const [command, ...params] = args;
+
+        switch (command?.toLowerCase()) {
+            case 'task':
+            case 'complete':
+                return { resourceType: 'task', query: params.join(' ').trim() };
+            case 'assign': {
+                // the assignee (@user, me or none) is the last word, when given
+                const last = params[params.length - 1] || '';
+                const hasAssignee = params.length > 1 && (last.startsWith('@') || ['me', 'none'].includes(last.toLowerCase()));
+                return {
+                    resourceType: 'task',
+                    query: (hasAssignee ? params.slice(0, -1) : params).join(' ').trim(),
+                    assignee: hasAssignee ? last : undefined,
+                };
+            }
+            case 'project':
+                return { resourceType: 'project', query: params.join(' ').trim() };
+            case 'webhook':
+                if (params[0]?.toLowerCase() === 'create') {
+                    return { resourceType: 'project', query: params.slice(1).join(' ').trim() };
+                }
+                return undefined;
+            default:
+                return undefined;
+        }
+    }
+
     private async authCommand(sender: IUser, room: IRoom, read: IRead, modify: IModify): Promise<void> {
         try {
             // Check if OAuth service is initialized
@@ -155,9 +337,27 @@ export class AsanaCommand implements ISlashCommand {
         }
     }
 
-    private async tasksCommand(sender: IUser, room: IRoom, read: IRead, modify: IModify, http: IHttp): Promise<void> {
+    private async tasksCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const pageSize = 25;
+        const usage = 'Usage: `/asana tasks [--field <name>=<value>] [--page <n>]`';
+        const { filters, rest, invalid } = parseCustomFieldFilters(params);
+        const page = this.getPageParam(rest);
+
+        if (invalid.length > 0) {
+            await this.sendNotification(modify, room, sender, `Invalid filter \`${invalid[0]}\`. ${usage}`);
+            return;
+        }
+
         try {
-            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read);
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
             
             if (!tokenInfo) {
                 await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
@@ -165,10 +365,18 @@ export class AsanaCommand implements ISlashCommand {
             }
 
             const apiService = this.app.getApiService();
-            const tasks = await apiService.getUserTasks(tokenInfo.access_token, http) as AsanaTask[];
+            const workspaceId = await resolveWorkspaceId(apiService, tokenInfo.access_token, read, http, sender, room);
+            if (!workspaceId) {
+                await this.sendNotification(modify, room, sender, 'No workspaces found.');
+                return;
+            }
+
+            const result = await apiService.getUserTasks(tokenInfo.access_token, workspaceId, http);
+            const tasks = result.data.filter((task) => matchesCustomFieldFilters(task, filters));
             
-            if (!tasks || tasks.length === 0) {
-                await this.sendNotification(modify, room, sender, 'No tasks found.');
+            if (tasks.length === 0) {
+                const withFilters = filters.length > 0 ? ` with ${this.formatFieldFilters(filters)}` : '';
+                await this.sendNotification(modify, room, sender, `No tasks${withFilters} found.`);
                 return;
             }
 
@@ -191,19 +399,24 @@ export class AsanaCommand implements ISlashCommand {
                 return 0;
             });
 
-            let message = '**Your Asana Tasks:**\n\n';
+            let message = filters.length > 0 ? `**Your Asana Tasks with ${this.formatFieldFilters(filters)}:**\n\n` : '**Your Asana Tasks:**\n\n';
             
-            // Group tasks by project
-            const tasksByProject: Record<string, AsanaTask[]> = {};
-            const tasksWithoutProject: AsanaTask[] = [];
+            // Group the tasks of the current page by project
+            const pageCount = Math.ceil(sortedTasks.length / pageSize);
+            const currentPage = Math.min(page, pageCount);
+            const start = (currentPage - 1) * pageSize;
+            const pageTasks = sortedTasks.slice(start, start + pageSize);
+            const tasksByProject: Record<string, Array<IAsanaTask>> = {};
+            const tasksWithoutProject: Array<IAsanaTask> = [];
             
-            sortedTasks.forEach((task) => {
+            pageTasks.forEach((task) => {
                 if (task.projects && task.projects.length > 0) {
                     task.projects.forEach(project => {
-                        if (!tasksByProject[project.name]) {
-                            tasksByProject[project.name] = [];
+                        const projectName = project.name || project.gid;
+                        if (!tasksByProject[projectName]) {
+                            tasksByProject[projectName] = [];
                         }
-                        tasksByProject[project.name].push(task);
+                        tasksByProject[projectName].push(task);
                     });
                 } else {
                     tasksWithoutProject.push(task);
@@ -215,42 +428,7 @@ export class AsanaCommand implements ISlashCommand {
                 message += `**Project: ${projectName}**\n`;
                 
                 projectTasks.forEach((task) => {
-                    // Build task link
-                    let taskLink;
-                    if (task.projects && task.projects.length > 0) {
-                        taskLink = `https://app.asana.com/0/${task.projects[0].gid}/${task.gid}`;
-                    } else {
-                        taskLink = `https://app.asana.com/0/0/${task.gid}`;
-                    }
-                    
-                    // Format due date if available
-                    let dueInfo = '';
-                    if (task.due_on) {
-                        const dueDate = new Date(task.due_on);
-                        const today = new Date();
-                        const tomorrow = new Date(today);
-                        tomorrow.setDate(today.getDate() + 1);
-                        
-                        // Check if due today or tomorrow
-                        if (dueDate.toDateString() === today.toDateString()) {
-                            dueInfo = ' - Due: **Today**';
-                        } else if (dueDate.toDateString() === tomorrow.toDateString()) {
-                            dueInfo = ' - Due: **Tomorrow**';
-                        } else {
-                            dueInfo = ` - Due: ${dueDate.toLocaleDateString()}`;
-                        }
-                    }
-                    
-                    // Add notes preview if available
-                    let notesPreview = '';
-                    if (task.notes && task.notes.trim()) {
-                        const truncatedNotes = task.notes.length > 50 
-                            ? task.notes.substring(0, 47) + '...' 
-                            : task.notes;
-                        notesPreview = ` - _${truncatedNotes}_`;
-                    }
-                    
-                    message += `- [${task.name}](${taskLink}) ${task.completed ? '✅ Completed' : '⏳ In Progress'}${dueInfo}${notesPreview}\n`;
+                    message += this.formatTaskLine(task);
                 });
                 
                 message += '\n';
@@ -261,36 +439,7 @@ export class AsanaCommand implements ISlashCommand {
                 message += '**Tasks without project:**\n';
                 
                 tasksWithoutProject.forEach((task) => {
-                    const taskLink = `https://app.asana.com/0/0/${task.gid}`;
-                    
-                    // Format due date if available
-                    let dueInfo = '';
-                    if (task.due_on) {
-                        const dueDate = new Date(task.due_on);
-                        const today = new Date();
-                        const tomorrow = new Date(today);
-                        tomorrow.setDate(today.getDate() + 1);
-                        
-                        // Check if due today or tomorrow
-                        if (dueDate.toDateString() === today.toDateString()) {
-                            dueInfo = ' - Due: **Today**';
-                        } else if (dueDate.toDateString() === tomorrow.toDateString()) {
-                            dueInfo = ' - Due: **Tomorrow**';
-                        } else {
-                            dueInfo = ` - Due: ${dueDate.toLocaleDateString()}`;
-                        }
-                    }
-                    
-                    // Add notes preview if available
-                    let notesPreview = '';
-                    if (task.notes && task.notes.trim()) {
-                        const truncatedNotes = task.notes.length > 50 
-                            ? task.notes.substring(0, 47) + '...' 
-                            : task.notes;
-                        notesPreview = ` - _${truncatedNotes}_`;
-                    }
-                    
-                    message += `- [${task.name}](${taskLink}) ${task.completed ? '✅ Completed' : '⏳ In Progress'}${dueInfo}${notesPreview}\n`;
+                    message += this.formatTaskLine(task);
                 });
                 
                 message += '\n';
@@ -298,6 +447,7 @@ export class AsanaCommand implements ISlashCommand {
             
             // Add summary
             message += `**Summary:** ${sortedTasks.filter(t => !t.completed).length} tasks in progress, ${sortedTasks.filter(t => t.completed).length} completed\n`;
+            message += this.formatPageFooter(currentPage, pageSize, sortedTasks.length, !!result.nextOffset);
 
             await this.sendNotification(modify, room, sender, message);
         } catch (error) {
@@ -306,9 +456,20 @@ export class AsanaCommand implements ISlashCommand {
         }
     }
 
-    private async projectsCommand(sender: IUser, room: IRoom, read: IRead, modify: IModify, http: IHttp): Promise<void> {
+    private async projectsCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const pageSize = 25;
+        const page = this.getPageParam(params);
+
         try {
-            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read);
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
             
             if (!tokenInfo) {
                 await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
@@ -316,86 +477,784 @@ export class AsanaCommand implements ISlashCommand {
             }
 
             const apiService = this.app.getApiService();
-            const projects = await apiService.getUserProjects(tokenInfo.access_token, http) as AsanaProject[];
+            const workspaceId = await resolveWorkspaceId(apiService, tokenInfo.access_token, read, http, sender, room);
+            if (!workspaceId) {
+                await this.sendNotification(modify, room, sender, 'No workspaces found.');
+                return;
+            }
+
+            const result = await apiService.getUserProjects(tokenInfo.access_token, workspaceId, http);
+            const projects = result.data;
             // log projects
-            this.app.getLogger().debug(`Projects: ${JSON.stringify(projects)}`);
-            if (!projects || projects.length === 0) {
+            this.app.getLogger().debug(`Loaded ${projects.length} projects`);
+            if (projects.length === 0) {
                 await this.sendNotification(modify, room, sender, 'No projects found.');
                 return;
             }
-            // remove projects without owner
-            const projectsWithoutOwner = projects.filter(project => project.owner);
-            // TODO: add filter for user's projects
-
-            let message = '**Your Asana Projects:**\n\n';
-            projects.forEach((project) => {
-                message += `- [${project.name}](https://app.asana.com/0/${project.gid}) - ${project.public ? 'Public' : 'Private'}\n`;
-            });
 
-            await this.sendNotification(modify, room, sender, message);
-        } catch (error) {
-            this.app.getLogger().error('Projects command error:', error);
-            await this.sendNotification(modify, room, sender, `Error getting projects: ${error.message}`);
+            const pageCount = Math.ceil(projects.length / pageSize);
+            const currentPage = Math.min(page, pageCount);
+            const start = (currentPage - 1) * pageSize;
+            const pageProjects = projects.slice(start, start + pageSize);
+
+            let message = '**Your Asana Projects:**\n\n';
+            pageProjects.forEach((project) => {
+                message += `- [${project.name}](https://app.asana.com/0/${project.gid}) - ${project.public ? 'Public' : 'Private'} - \`${project.gid}\`\n`;
+            });
+            message += this.formatPageFooter(currentPage, pageSize, projects.length, !!result.nextOffset);
+            message += 'Run `/asana project <project_id>` to see a project as a board.\n';
+
+            await this.sendNotification(modify, room, sender, message);
+        } catch (error) {
+            this.app.getLogger().error('Projects command error:', error);
+            await this.sendNotification(modify, room, sender, `Error getting projects: ${error.message}`);
+        }
+    }
+
+    /**
+     * Show a project like a board: every section with its open tasks, counts and overdue markers
+     */
+    private async projectBoardCommand(
+        sender: IUser,
+        room: IRoom,
+        projectId: string,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const tasksPerSection = 10;
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const apiService = this.app.getApiService();
+            const project = await apiService.getProjectById(tokenInfo.access_token, projectId, http);
+            const sections = await apiService.getProjectSections(tokenInfo.access_token, projectId, http);
+            const sectionTasks = await apiService.getOpenSectionTasks(tokenInfo.access_token, sections.map((section) => section.gid), http);
+
+            let openCount = 0;
+            let overdueCount = 0;
+            let board = '';
+
+            sections.forEach((section, index) => {
+                const result = sectionTasks[index];
+                if (result.error) {
+                    board += `\n**${section.name}**\n_Could not load the tasks: ${result.error.message}_\n`;
+                    return;
+                }
+
+                const tasks = result.data || [];
+                const overdue = tasks.filter((task) => isOverdue(task.due_on)).length;
+                const count = `${tasks.length}${tasks.length >= SECTION_TASK_LIMIT ? '+' : ''}`;
+                openCount += tasks.length;
+                overdueCount += overdue;
+
+                board += `\n**${section.name}** (${count} open${overdue > 0 ? `, ${overdue} overdue` : ''})\n`;
+                if (tasks.length === 0) {
+                    board += '_No open tasks_\n';
+                }
+                tasks.slice(0, tasksPerSection).forEach((task) => {
+                    board += this.formatBoardTaskLine(task);
+                });
+                if (tasks.length > tasksPerSection) {
+                    board += `_...and ${tasks.length - tasksPerSection} more_\n`;
+                }
+            });
+
+            let message = `**📊 [${project.name}](https://app.asana.com/0/${project.gid})**\n`;
+            message += `${openCount} open tasks in ${sections.length} sections${overdueCount > 0 ? `, ⚠️ ${overdueCount} overdue` : ''}\n`;
+            message += sections.length > 0 ? board : '\n_This project has no sections._\n';
+
+            await this.sendNotification(modify, room, sender, message);
+        } catch (error) {
+            this.app.getLogger().error('Project command error:', error);
+            await this.sendNotification(modify, room, sender, `Error getting project: ${error.message}`);
+        }
+    }
+
+    private async taskCommand(sender: IUser, room: IRoom, taskId: string, read: IRead, modify: IModify, http: IHttp, persis: IPersistence): Promise<void> {
+        const maxSubtasks = 25;
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+            
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const apiService = this.app.getApiService();
+            const task = await apiService.getTaskById(tokenInfo.access_token, taskId, http);
+
+            let message = this.formatTaskDetails(task);
+            if (!task.num_subtasks) {
+                await this.sendNotification(modify, room, sender, message);
+                return;
+            }
+
+            // the subtasks become a checklist below the details, open ones with a "Done" button
+            const result = await apiService.getSubtasks(tokenInfo.access_token, taskId, http, maxSubtasks);
+            const subtasks = result.data;
+            if (result.nextOffset) {
+                message += `\n\n**Subtasks:** ${task.num_subtasks}, the first ${subtasks.length} are shown`;
+            } else {
+                message += `\n\n**Subtasks (${subtasks.filter((subtask) => subtask.completed).length}/${subtasks.length} done):**`;
+            }
+
+            const blocks = addSubtaskChecklistBlocks(modify.getCreator().getBlockBuilder(), subtasks);
+            await this.sendNotification(modify, room, sender, message, blocks);
+        } catch (error) {
+            this.app.getLogger().error('Task command error:', error);
+            await this.sendNotification(modify, room, sender, `Error getting task details: ${error.message}`);
+        }
+    }
+
+    private async subtaskCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const [action, taskId, ...rest] = params;
+        const name = rest.join(' ').trim();
+        if (action?.toLowerCase() !== 'add' || !taskId || !name) {
+            await this.sendNotification(modify, room, sender, 'Usage: `/asana subtask add <task_id> <name>`');
+            return;
+        }
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const subtask = await this.app.getApiService().createSubtask(tokenInfo.access_token, taskId, name, http);
+            const parent = subtask.parent || { gid: taskId };
+
+            await this.sendNotification(
+                modify,
+                room,
+                sender,
+                `➕ Subtask [${subtask.name}](${getTaskLink(subtask)}) added to [${parent.name || taskId}](${getTaskLink(parent)})`,
+            );
+        } catch (error) {
+            this.app.getLogger().error('Subtask command error:', error);
+            await this.sendNotification(modify, room, sender, `Error adding subtask: ${error.message}`);
+        }
+    }
+
+    private async createCommand(
+        context: SlashCommandContext,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const sender = context.getSender();
+        const room = context.getRoom();
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const apiService = this.app.getApiService();
+            const workspaceId = await resolveWorkspaceId(apiService, tokenInfo.access_token, read, http, sender, room);
+            if (!workspaceId) {
+                await this.sendNotification(modify, room, sender, 'No workspaces found.');
+                return;
+            }
+
+            // with a title, create the task right away and assign it to the sender
+            const name = params.join(' ').trim();
+            if (name) {
+                const task = await apiService.createTask(tokenInfo.access_token, { name, workspaceId, assigneeId: 'me' }, http);
+                const card = buildTaskCard(task, `🆕 @${sender.username} created a new task`);
+                await sendTaskCard(read, modify, room, '📋 Asana Task created', card, context.getThreadId());
+                return;
+            }
+
+            // without a title, open the modal to fill in the details
+            const triggerId = context.getTriggerId();
+            if (!triggerId) {
+                await this.sendNotification(modify, room, sender, 'Unable to open the task form here. Please use `/asana create <title>` instead.');
+                return;
+            }
+
+            const state: ICreateTaskModalState = {
+                roomId: room.id,
+                threadId: context.getThreadId(),
+                workspaceId,
+            };
+            await saveCreateTaskState(persis, sender.id, state);
+
+            const modal = await createTaskModal(apiService, state, tokenInfo.access_token, modify, http);
+            await modify.getUiController().openModalView(modal, { triggerId }, sender);
+        } catch (error) {
+            this.app.getLogger().error('Create command error:', error);
+            await this.sendNotification(modify, room, sender, `Error creating task: ${error.message}`);
+        }
+    }
+
+    private async updateTaskCommand(
+        sender: IUser,
+        room: IRoom,
+        action: string,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const usages: Record<string, string> = {
+            complete: '`/asana complete <task_id>`',
+            reopen: '`/asana reopen <task_id>`',
+            rename: '`/asana rename <task_id> <name>`',
+            due: '`/asana due <task_id> <YYYY-MM-DD|today|tomorrow|+Nd|none>`',
+        };
+
+        const [taskId, ...rest] = params;
+        const value = rest.join(' ').trim();
+        if (!taskId || ((action === 'rename' || action === 'due') && !value)) {
+            await this.sendNotification(modify, room, sender, `Usage: ${usages[action]}`);
+            return;
+        }
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const apiService = this.app.getApiService();
+            let task: IAsanaTask;
+            let summary: string;
+
+            switch (action) {
+                case 'complete':
+                    task = await apiService.setTaskCompleted(tokenInfo.access_token, taskId, true, http);
+                    summary = '✅ Task marked as complete.';
+                    break;
+                case 'reopen':
+                    task = await apiService.setTaskCompleted(tokenInfo.access_token, taskId, false, http);
+                    summary = '🔄 Task reopened.';
+                    break;
+                case 'rename':
+                    task = await apiService.renameTask(tokenInfo.access_token, taskId, value, http);
+                    summary = '✏️ Task renamed.';
+                    break;
+                default:
+                    const dueOn = parseDueDate(value);
+                    if (dueOn === undefined) {
+                        await this.sendNotification(modify, room, sender, `Invalid due date \`${value}\`. Usage: ${usages.due}`);
+                        return;
+                    }
+                    task = await apiService.setTaskDueDate(tokenInfo.access_token, taskId, dueOn, http);
+                    summary = dueOn ? '📅 Due date updated.' : '📅 Due date removed.';
+                    break;
+            }
+
+            await this.sendNotification(modify, room, sender, `${summary}\n\n${this.formatTaskDetails(task)}`);
+        } catch (error) {
+            this.app.getLogger().error(`${action} command error:`, error);
+            await this.sendNotification(modify, room, sender, `Error updating task: ${error.message}`);
+        }
+    }
+
+    private async assignCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const [taskId, target] = params;
+        if (!taskId || !target) {
+            await this.sendNotification(modify, room, sender, 'Usage: `/asana assign <task_id> <@user|me|none>` or `/asana unassign <task_id>`');
+            return;
+        }
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const apiService = this.app.getApiService();
+            let assigneeId: string | null;
+            let summary: string;
+
+            if (target.toLowerCase() === 'me') {
+                assigneeId = 'me';
+                summary = '👤 Task assigned to you.';
+            } else if (target.toLowerCase() === 'none') {
+                assigneeId = null;
+                summary = '👤 Task unassigned.';
+            } else {
+                const username = target.replace(/^@/, '');
+                const user = await read.getUserReader().getByUsername(username);
+                if (!user) {
+                    await this.sendNotification(modify, room, sender, `Rocket.Chat user @${username} not found.`);
+                    return;
+                }
+
+                const email = user.emails && user.emails.length > 0 ? user.emails[0].address : '';
+                if (!email) {
+                    await this.sendNotification(modify, room, sender, `@${username} has no email address, so they cannot be matched to an Asana user.`);
+                    return;
+                }
+
+                // the assignee must belong to the workspace the task lives in
+                const task = await apiService.getTaskById(tokenInfo.access_token, taskId, http);
+
+                const workspaceId = task.workspace ? task.workspace.gid : undefined;
+                const asanaUser = await apiService.getUserById(tokenInfo.access_token, email, http, workspaceId);
+                if (!asanaUser) {
+                    await this.sendNotification(modify, room, sender, `❌ @${username} (${email}) is not a member of this task's Asana workspace.`);
+                    return;
+                }
+
+                assigneeId = asanaUser.gid;
+                summary = `👤 Task assigned to ${asanaUser.name} (@${username}).`;
+            }
+
+            const updatedTask = await apiService.assignTask(tokenInfo.access_token, taskId, assigneeId, http);
+            await this.sendNotification(modify, room, sender, `${summary}\n\n${this.formatTaskDetails(updatedTask)}`);
+        } catch (error) {
+            this.app.getLogger().error('Assign command error:', error);
+            await this.sendNotification(modify, room, sender, `Error assigning task: ${error.message}`);
+        }
+    }
+
+    /**
+     * Move a task to a section, given by ID or by name among the sections of the task's projects
+     */
+    private async moveCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const [taskId, ...rest] = params;
+        const sectionQuery = rest.join(' ').trim();
+        if (!taskId || !sectionQuery) {
+            await this.sendNotification(modify, room, sender, 'Usage: `/asana move <task_id> <section_id|section name>`');
+            return;
+        }
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const apiService = this.app.getApiService();
+            const task = await apiService.getTaskById(tokenInfo.access_token, taskId, http);
+            const taskLink = `[${task.name}](${getTaskLink(task)})`;
+
+            let sectionId = sectionQuery;
+            let sectionName = `section \`${sectionQuery}\``;
+
+            if (!/^\d+$/.test(sectionQuery)) {
+                const projects = task.projects || [];
+                if (projects.length === 0) {
+                    await this.sendNotification(modify, room, sender, `${taskLink} is not in any project. Please give a section ID to move it into one.`);
+                    return;
+                }
+
+                const candidates: Array<{ section: IAsanaSection; projectName: string }> = [];
+                for (const project of projects) {
+                    const sections = await apiService.getProjectSections(tokenInfo.access_token, project.gid, http);
+                    sections.forEach((section) => candidates.push({ section, projectName: project.name || project.gid }));
+                }
+
+                // an exact name wins over names that only contain the query
+                const query = sectionQuery.toLowerCase();
+                const exact = candidates.filter((candidate) => candidate.section.name.toLowerCase() === query);
+                const matches = exact.length > 0 ? exact : candidates.filter((candidate) => candidate.section.name.toLowerCase().includes(query));
+
+                if (matches.length === 0) {
+                    const names = candidates.map((candidate) => candidate.section.name).join(', ');
+                    await this.sendNotification(modify, room, sender, `No section matches "${sectionQuery}". The sections of this task's projects are: ${names || 'none'}`);
+                    return;
+                }
+
+                if (matches.length > 1) {
+                    const names = matches.map((candidate) => `${candidate.section.name} (${candidate.projectName}, \`${candidate.section.gid}\`)`).join(', ');
+                    await this.sendNotification(modify, room, sender, `"${sectionQuery}" matches several sections: ${names}. Please be more specific or use a section ID.`);
+                    return;
+                }
+
+                sectionId = matches[0].section.gid;
+                sectionName = `**${matches[0].section.name}**`;
+            }
+
+            await apiService.moveTaskToSection(tokenInfo.access_token, taskId, sectionId, http);
+            await this.sendNotification(modify, room, sender, `📂 ${taskLink} moved to ${sectionName}.`);
+        } catch (error) {
+            this.app.getLogger().error('Move command error:', error);
+            await this.sendNotification(modify, room, sender, `Error moving task: ${error.message}`);
+        }
+    }
+
+    /**
+     * Add (+name) and remove (-name) tags of a task, or list the tags of the workspace.
+     * A tag that does not exist yet is created; words without a sign belong to the tag before them.
+     */
+    private async tagCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const usage = 'Usage: `/asana tag <task_id> +tag -other-tag ...` or `/asana tag list`';
+        const [taskId, ...rest] = params;
+        if (!taskId) {
+            await this.sendNotification(modify, room, sender, usage);
+            return;
+        }
+
+        const changes: Array<{ add: boolean; name: string }> = [];
+        for (const word of rest) {
+            if (word.startsWith('+') || word.startsWith('-')) {
+                changes.push({ add: word.startsWith('+'), name: word.slice(1) });
+            } else if (changes.length > 0) {
+                changes[changes.length - 1].name += ` ${word}`;
+            }
+        }
+
+        const isList = taskId.toLowerCase() === 'list';
+        if (!isList && (changes.length === 0 || changes.some((change) => !change.name))) {
+            await this.sendNotification(modify, room, sender, usage);
+            return;
+        }
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const apiService = this.app.getApiService();
+
+            const task = isList ? undefined : await apiService.getTaskById(tokenInfo.access_token, taskId, http);
+            const workspaceId = task && task.workspace
+                ? task.workspace.gid
+                : await resolveWorkspaceId(apiService, tokenInfo.access_token, read, http, sender, room);
+            if (!workspaceId) {
+                await this.sendNotification(modify, room, sender, 'No workspaces found.');
+                return;
+            }
+
+            if (!task) {
+                const workspaceTags = await apiService.getWorkspaceTags(tokenInfo.access_token, workspaceId, http);
+                const names = workspaceTags.map((tag) => `\`${tag.name}\``).sort((x, y) => x.localeCompare(y));
+                await this.sendNotification(modify, room, sender, names.length > 0
+                    ? `**Tags in your workspace (${names.length}):**\n${names.join(', ')}`
+                    : 'There are no tags in your workspace yet.');
+                return;
+            }
+
+            const tags = new Map<string, string>((task.tags || []).map((tag): [string, string] => [tag.gid, tag.name || tag.gid]));
+            const lines: Array<string> = [];
+
+            for (const change of changes) {
+                const query = change.name.toLowerCase();
+                const current = Array.from(tags.entries()).find(([, name]) => name.toLowerCase() === query);
+
+                if (!change.add) {
+                    if (!current) {
+                        lines.push(`Task is not tagged \`${change.name}\`, nothing removed.`);
+                        continue;
+                    }
+                    await apiService.removeTagFromTask(tokenInfo.access_token, taskId, current[0], http);
+                    tags.delete(current[0]);
+                    lines.push(`➖ Removed \`${current[1]}\``);
+                    continue;
+                }
+
+                if (current) {
+                    lines.push(`Task is already tagged \`${current[1]}\`.`);
+                    continue;
+                }
+
+                // typeahead also returns tags that only start with the name, so look for the exact one
+                const candidates = await apiService.typeahead<IAsanaTag>(tokenInfo.access_token, workspaceId, 'tag', change.name, http);
+                let tag = candidates.find((candidate) => candidate.name.toLowerCase() === query);
+                let created = false;
+                if (!tag) {
+                    tag = await apiService.createTag(tokenInfo.access_token, workspaceId, change.name, http);
+                    created = true;
+                }
+
+                await apiService.addTagToTask(tokenInfo.access_token, taskId, tag.gid, http);
+                tags.set(tag.gid, tag.name);
+                lines.push(`➕ Added \`${tag.name}\`${created ? ' (new tag)' : ''}`);
+            }
+
+            const tagList = Array.from(tags.values()).map((name) => `\`${name}\``).join(', ') || 'none';
+            await this.sendNotification(
+                modify,
+                room,
+                sender,
+                `🏷️ Tags of [${task.name}](${getTaskLink(task)}) updated\n${lines.join('\n')}\n\n**Tags:** ${tagList}`,
+            );
+        } catch (error) {
+            this.app.getLogger().error('Tag command error:', error);
+            await this.sendNotification(modify, room, sender, `Error updating tags: ${error.message}`);
+        }
+    }
+
+    private async commentCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const [taskId, ...rest] = params;
+        const text = rest.join(' ').trim();
+        if (!taskId || !text) {
+            await this.sendNotification(modify, room, sender, 'Usage: `/asana comment <task_id> <text>`');
+            return;
+        }
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const story = await this.app.getApiService().addComment(tokenInfo.access_token, taskId, markdownToAsanaHtml(text), http);
+            const task = story.target || { gid: taskId };
+
+            await this.sendNotification(modify, room, sender, `💬 Comment added to task [${task.name || taskId}](${getTaskLink(task)})`);
+        } catch (error) {
+            this.app.getLogger().error('Comment command error:', error);
+            await this.sendNotification(modify, room, sender, `Error adding comment: ${error.message}`);
+        }
+    }
+
+    /**
+     * Attach the latest file the sender shared in this room, or in this thread, to a task
+     */
+    private async attachCommand(
+        context: SlashCommandContext,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const sender = context.getSender();
+        const room = context.getRoom();
+        const taskId = parseTaskReference(params[0]);
+        if (!taskId) {
+            await this.sendNotification(modify, room, sender, 'Usage: `/asana attach <task_id|task link>`, it attaches the last file you shared here');
+            return;
+        }
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const message = await this.findLatestFileMessage(read, room, sender, context.getThreadId());
+            if (!message) {
+                await this.sendNotification(
+                    modify,
+                    room,
+                    sender,
+                    'No file shared by you found in the recent messages here. Share the file first, or use **Attach file to Asana task** from the menu of its message.',
+                );
+                return;
+            }
+
+            const attachment = await attachMessageFile(this.app.getApiService(), tokenInfo.access_token, read, room, message, taskId, http);
+            const task = attachment.parent || { gid: taskId };
+
+            await this.sendNotification(modify, room, sender, `📎 **${attachment.name}** attached to task [${task.name || taskId}](${getTaskLink(task)})`);
+        } catch (error) {
+            this.app.getLogger().error('Attach command error:', error);
+            await this.sendNotification(modify, room, sender, `Error attaching file: ${error.message}`);
+        }
+    }
+
+    /**
+     * Find the newest of the recent messages with a file that the user sent, in the thread when given
+     */
+    private async findLatestFileMessage(read: IRead, room: IRoom, user: IUser, threadId?: string): Promise<{ id: string; file: IMessageFile } | undefined> {
+        const recentMessages = 50;
+
+        let messages: Array<{ id?: string; senderId: string; file?: IMessageFile; createdAt?: Date }>;
+        if (threadId) {
+            const thread = await read.getThreadReader().getThreadById(threadId) || [];
+            messages = thread
+                .map((message) => ({ id: message.id, senderId: message.sender.id, file: message.file, createdAt: message.createdAt }))
+                .sort((a, b) => (b.createdAt ? new Date(b.createdAt).getTime() : 0) - (a.createdAt ? new Date(a.createdAt).getTime() : 0));
+        } else {
+            const roomMessages = await read.getRoomReader().getMessages(room.id, { limit: recentMessages, sort: { createdAt: 'desc' } });
+            messages = roomMessages.map((message) => ({ id: message.id, senderId: message.sender._id, file: message.file, createdAt: message.createdAt }));
+        }
+
+        const latest = messages.slice(0, recentMessages).find((message) => message.senderId === user.id && !!message.file && !!message.id);
+        return latest ? { id: latest.id!, file: latest.file! } : undefined;
+    }
+
+    private async searchCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const pageSize = 10;
+        const usage = 'Usage: `/asana search <query> [--project <id|name>] [--assignee me] [--completed] [--field <name>=<value>] [--page <n>]`';
+        const { filters, rest, invalid } = parseCustomFieldFilters(params);
+        if (invalid.length > 0) {
+            await this.sendNotification(modify, room, sender, `Invalid filter \`${invalid[0]}\`. ${usage}`);
+            return;
+        }
+
+        // split flags from the query words
+        const queryWords: Array<string> = [];
+        let projectFilter: string | undefined;
+        let assignee: string | undefined;
+        let completed = false;
+        let page = 1;
+        for (let i = 0; i < rest.length; i++) {
+            switch (rest[i].toLowerCase()) {
+                case '--project':
+                    projectFilter = rest[++i];
+                    break;
+                case '--assignee':
+                    assignee = rest[++i];
+                    break;
+                case '--completed':
+                    completed = true;
+                    break;
+                case '--page':
+                    page = this.getPageParam(rest.slice(i, i + 2));
+                    i++;
+                    break;
+                default:
+                    queryWords.push(rest[i]);
+            }
+        }
+
+        const query = queryWords.join(' ').trim();
+        if (!query) {
+            await this.sendNotification(modify, room, sender, usage);
+            return;
         }
-    }
 
-    private async taskCommand(sender: IUser, room: IRoom, taskId: string, read: IRead, modify: IModify, http: IHttp): Promise<void> {
         try {
-            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read);
-            
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
             if (!tokenInfo) {
                 await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
                 return;
             }
 
             const apiService = this.app.getApiService();
-            const task = await apiService.getTaskById(tokenInfo.access_token, taskId, http) as AsanaTask;
-     
-            if (!task) {
-                await this.sendNotification(modify, room, sender, `Task with ID ${taskId} not found.`);
+            const workspaceId = await resolveWorkspaceId(apiService, tokenInfo.access_token, read, http, sender, room);
+            if (!workspaceId) {
+                await this.sendNotification(modify, room, sender, 'No workspaces found.');
                 return;
             }
 
-            let message = `**Task Details: ${task.name}**\n\n`;
-            message += `**Status:** ${task.completed ? '✅ Completed' : '⏳ In Progress'}\n`;
-            
-            if (task.due_on) {
-                message += `**Due Date:** ${task.due_on}\n`;
-            }
-            
-            if (task.assignee) {
-                message += `**Assignee:** ${task.assignee.name}\n`;
-            }
-            
-            if (task.projects && task.projects.length > 0) {
-                // TODO: get project details
-                message += `**Projects:** ${task.projects.map(p => p.gid).join(', ')}\n`;
-            }
-            
-            if (task.notes) {
-                message += `\n**Description:**\n${task.notes}\n`;
+            // --project accepts a gid or (part of) a project name
+            let projectId: string | undefined;
+            if (projectFilter) {
+                if (/^\d+$/.test(projectFilter)) {
+                    projectId = projectFilter;
+                } else {
+                    const projects = await apiService.getWorkspaceProjects(tokenInfo.access_token, workspaceId, http);
+                    const project = projects.find((p) => p.name.toLowerCase().includes(projectFilter!.toLowerCase()));
+                    if (!project) {
+                        await this.sendNotification(modify, room, sender, `No project matching \`${projectFilter}\` found.`);
+                        return;
+                    }
+                    projectId = project.gid;
+                }
             }
-            
-            // Build task link
-            let taskLink;
-            if (task.projects && task.projects.length > 0) {
-                taskLink = `https://app.asana.com/0/${task.projects[0].gid}/${task.gid}`;
-            } else {
-                taskLink = `https://app.asana.com/0/0/${task.gid}`;
+
+            const results = await apiService.searchTasks(tokenInfo.access_token, workspaceId, {
+                text: query,
+                projectId,
+                assignee,
+                completed,
+            }, http);
+            const tasks = results.data.filter((task) => matchesCustomFieldFilters(task, filters));
+
+            if (tasks.length === 0) {
+                const withFilters = filters.length > 0 ? ` with ${this.formatFieldFilters(filters)}` : '';
+                await this.sendNotification(modify, room, sender, `No ${completed ? 'completed' : 'open'} tasks matching \`${query}\`${withFilters} found.`);
+                return;
             }
-            
-            message += `\n[View in Asana](${taskLink})`;
+
+            const pageCount = Math.ceil(tasks.length / pageSize);
+            const currentPage = Math.min(page, pageCount);
+            const start = (currentPage - 1) * pageSize;
+            const pageTasks = tasks.slice(start, start + pageSize);
+
+            let message = `**Asana tasks matching \`${query}\`:**\n\n`;
+            pageTasks.forEach((task) => {
+                message += this.formatTaskLine(task);
+            });
+
+            message += this.formatPageFooter(currentPage, pageSize, tasks.length, results.truncated, results.data.length);
 
             await this.sendNotification(modify, room, sender, message);
         } catch (error) {
-            this.app.getLogger().error('Task command error:', error);
-            await this.sendNotification(modify, room, sender, `Error getting task details: ${error.message}`);
+            this.app.getLogger().error('Search command error:', error);
+            await this.sendNotification(modify, room, sender, `Error searching tasks: ${error.message}`);
         }
     }
 
-    private async summaryCommand(sender: IUser, room: IRoom, read: IRead, modify: IModify, http: IHttp): Promise<void> {
+    private async summaryCommand(sender: IUser, room: IRoom, read: IRead, modify: IModify, http: IHttp, persis: IPersistence): Promise<void> {
         try {
-            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read);
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
             
             if (!tokenInfo) {
                 await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
@@ -403,9 +1262,16 @@ export class AsanaCommand implements ISlashCommand {
             }
 
             const apiService = this.app.getApiService();
-            const tasks = await apiService.getUserTasks(tokenInfo.access_token, http) as AsanaTask[];
+            const workspaceId = await resolveWorkspaceId(apiService, tokenInfo.access_token, read, http, sender, room);
+            if (!workspaceId) {
+                await this.sendNotification(modify, room, sender, 'No workspaces found.');
+                return;
+            }
+
+            const result = await apiService.getUserTasks(tokenInfo.access_token, workspaceId, http);
+            const tasks = result.data;
             
-            if (!tasks || tasks.length === 0) {
+            if (tasks.length === 0) {
                 await this.sendNotification(modify, room, sender, 'No tasks found.');
                 return;
             }
@@ -432,7 +1298,7 @@ export class AsanaCommand implements ISlashCommand {
             });
 
             let message = '**Asana Task Summary**\n\n';
-            message += `**Total Tasks:** ${tasks.length}\n`;
+            message += `**Total Tasks:** ${tasks.length}${result.nextOffset ? '+' : ''}\n`;
             message += `**Completed:** ${completedTasks.length}\n`;
             message += `**Pending:** ${pendingTasks.length}\n\n`;
             
@@ -491,6 +1357,7 @@ export class AsanaCommand implements ISlashCommand {
             
             // delete user's authorization token
             await persis.removeByAssociation(association);
+            this.app.getOAuth2Service().forgetUser(sender.id);
             
             this.app.getLogger().info(`Deleted Asana authorization token for user ${sender.username}`);
             await this.sendNotification(modify, room, sender, 'You have successfully logged out of Asana. You can use `/asana auth` command to re-authorize.');
@@ -529,14 +1396,231 @@ export class AsanaCommand implements ISlashCommand {
         }
     }
 
+    private async workspaceCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const usage = 'Usage: `/asana workspace list`, `/asana workspace use <workspace_id|name> [--room]` or `/asana workspace reset [--room]`';
+        const [subCommand, ...args] = params;
+        const forRoom = args.some((arg) => arg.toLowerCase() === '--room');
+        const query = args.filter((arg) => arg.toLowerCase() !== '--room').join(' ').trim();
+
+        try {
+            const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+
+            if (!tokenInfo) {
+                await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                return;
+            }
+
+            const apiService = this.app.getApiService();
+
+            switch (subCommand?.toLowerCase()) {
+                case 'list': {
+                    const workspaces = await apiService.getWorkspaces(tokenInfo.access_token, http);
+                    if (workspaces.length === 0) {
+                        await this.sendNotification(modify, room, sender, 'No workspaces found.');
+                        return;
+                    }
+
+                    const currentId = await resolveWorkspaceId(apiService, tokenInfo.access_token, read, http, sender, room);
+                    const userChoice = await getUserWorkspace(read, sender.id);
+                    const roomChoice = await getRoomWorkspace(read, room.id);
+
+                    let message = '**Your Asana Workspaces:**\n\n';
+                    workspaces.forEach((workspace) => {
+                        const notes: Array<string> = [];
+                        if (workspace.gid === currentId) {
+                            notes.push('**in use**');
+                        }
+                        if (userChoice && userChoice.workspaceId === workspace.gid) {
+                            notes.push('your choice');
+                        }
+                        if (roomChoice && roomChoice.workspaceId === workspace.gid) {
+                            notes.push('room default');
+                        }
+                        message += `- ${workspace.name} (\`${workspace.gid}\`)${notes.length > 0 ? ` - ${notes.join(', ')}` : ''}\n`;
+                    });
+                    message += '\nRun `/asana workspace use <workspace_id|name>` to switch.';
+
+                    await this.sendNotification(modify, room, sender, message);
+                    break;
+                }
+                case 'use': {
+                    if (!query) {
+                        await this.sendNotification(modify, room, sender, usage);
+                        return;
+                    }
+
+                    const workspaces = await apiService.getWorkspaces(tokenInfo.access_token, http);
+                    const workspace = workspaces.find((w) => w.gid === query)
+                        || workspaces.find((w) => w.name.toLowerCase() === query.toLowerCase())
+                        || workspaces.find((w) => w.name.toLowerCase().includes(query.toLowerCase()));
+                    if (!workspace) {
+                        await this.sendNotification(modify, room, sender, `No workspace matching \`${query}\` found. Run \`/asana workspace list\` to see your workspaces.`);
+                        return;
+                    }
+
+                    const choice = { workspaceId: workspace.gid, workspaceName: workspace.name };
+                    if (forRoom) {
+                        if (!await this.checkRoomManager(sender, room, read, modify, 'its default workspace')) {
+                            return;
+                        }
+                        await saveRoomWorkspace(persis, room.id, choice);
+                        await this.sendNotification(modify, room, sender, `Workspace **${workspace.name}** is now the default for this room.`);
+                    } else {
+                        await saveUserWorkspace(persis, sender.id, choice);
+                        await this.sendNotification(modify, room, sender, `Your commands now use workspace **${workspace.name}**.`);
+                    }
+                    break;
+                }
+                case 'reset':
+                    if (forRoom) {
+                        if (!await this.checkRoomManager(sender, room, read, modify, 'its default workspace')) {
+                            return;
+                        }
+                        await clearRoomWorkspace(persis, room.id);
+                        await this.sendNotification(modify, room, sender, 'The default workspace of this room has been removed.');
+                    } else {
+                        await clearUserWorkspace(persis, sender.id);
+                        await this.sendNotification(modify, room, sender, 'Your workspace choice has been removed, the default workspace is used again.');
+                    }
+                    break;
+                default:
+                    await this.sendNotification(modify, room, sender, usage);
+                    break;
+            }
+        } catch (error) {
+            this.app.getLogger().error('Workspace command error:', error);
+            await this.sendNotification(modify, room, sender, `Error managing workspaces: ${error.message}`);
+        }
+    }
+
+    /**
+     * Show, set or reset the notification filter of this room
+     */
+    private async notifyCommand(
+        sender: IUser,
+        room: IRoom,
+        params: Array<string>,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const usage = 'Usage: `/asana notify show`, `/asana notify reset`, `/asana notify mode <messages|threads|live|default>` '
+            + 'or `/asana notify set [--events <types>] [--fields <fields>] [--assignee <name|me|none>] [--section <name>] [--tag <name>] '
+            + '[--field <name>=<value>]`\n'
+            + `Event types: ${NOTIFICATION_EVENT_TYPES.join(', ')}`;
+        const [subCommand, ...args] = params;
+        const action = (subCommand || '').toLowerCase();
+
+        try {
+            if (['mode', 'reset', 'set'].indexOf(action) !== -1 && !await this.checkRoomManager(sender, room, read, modify, 'its notifications')) {
+                return;
+            }
+
+            switch (action) {
+                case 'show': {
+                    const filter = await getNotificationFilter(read, room.id);
+                    const lines = filter ? formatNotificationFilter(filter) : [];
+                    const mode = await getNotificationMode(read, room.id);
+                    const roomMode = await getRoomNotificationMode(read, room.id);
+                    const modeLine = `**Style:** ${NOTIFICATION_MODE_LABELS[mode]}${roomMode ? '' : ' (app default)'}`;
+                    await this.sendNotification(modify, room, sender, lines.length > 0
+                        ? `**Notifications in this room are limited to:**\n${lines.join('\n')}\n${modeLine}\n\nRun \`/asana notify reset\` to get all of them again.`
+                        : `This room gets all Asana notifications of the resources it follows.\n${modeLine}`);
+                    break;
+                }
+                case 'mode': {
+                    const value = (args[0] || '').toLowerCase();
+                    if (value === 'default') {
+                        await clearRoomNotificationMode(persis, room.id);
+                        const mode = await getNotificationMode(read, room.id);
+                        await this.sendNotification(
+                            modify,
+                            room,
+                            sender,
+                            `This room now uses the app's notification style: ${NOTIFICATION_MODE_LABELS[mode]}.`,
+                        );
+                        return;
+                    }
+                    if (!isNotificationMode(value)) {
+                        await this.sendNotification(modify, room, sender, 'Usage: `/asana notify mode <messages|threads|live|default>`');
+                        return;
+                    }
+
+                    await saveRoomNotificationMode(persis, room.id, value);
+                    await this.sendNotification(modify, room, sender, `Task notifications in this room are now posted as ${NOTIFICATION_MODE_LABELS[value]}.`);
+                    break;
+                }
+                case 'reset':
+                    await clearNotificationFilter(persis, room.id);
+                    await this.sendNotification(modify, room, sender, '🔔 This room gets all Asana notifications again.');
+                    break;
+                case 'set': {
+                    const { filter, errors } = parseNotificationFilter(args);
+                    if (errors.length > 0) {
+                        await this.sendNotification(modify, room, sender, `${errors.join('\n')}\n\n${usage}`);
+                        return;
+                    }
+                    if (formatNotificationFilter(filter).length === 0) {
+                        await this.sendNotification(modify, room, sender, usage);
+                        return;
+                    }
+
+                    if (filter.assignee && filter.assignee.name.toLowerCase() === 'me') {
+                        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
+                        if (!tokenInfo) {
+                            await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+                            return;
+                        }
+                        const me = await this.app.getApiService().getUser(tokenInfo.access_token, http);
+                        filter.assignee = { gid: me.gid, name: me.name };
+                    }
+
+                    filter.updatedBy = sender.id;
+                    filter.updatedAt = new Date().toISOString();
+                    await saveNotificationFilter(persis, room.id, filter);
+                    // comments come through the story subscription, which older webhooks lack
+                    const commentNote = filter.events && filter.events.indexOf('commented') !== -1
+                        ? '\n\nComments are only sent by webhooks created or rotated since comment notifications were added, '
+                            + 'run `/asana webhook rotate <webhook_id>` for older ones.'
+                        : '';
+                    await this.sendNotification(
+                        modify,
+                        room,
+                        sender,
+                        `🔕 From now on this room only gets Asana notifications matching:\n${formatNotificationFilter(filter).join('\n')}${commentNote}`,
+                    );
+                    break;
+                }
+                default:
+                    await this.sendNotification(modify, room, sender, usage);
+            }
+        } catch (error) {
+            this.app.getLogger().error('Notify command error:', error);
+            await this.sendNotification(modify, room, sender, `Error managing notifications: ${error.message}`);
+        }
+    }
+
     private async webhookCommand(sender: IUser, room: IRoom, params: string[], read: IRead, modify: IModify, http: IHttp, persis: IPersistence): Promise<void> {
         if (!params || params.length === 0) {
-            await this.sendNotification(modify, room, sender, 'Please specify a webhook action: `create`, `list`, or `delete`');
+            await this.sendNotification(modify, room, sender, 'Please specify a webhook action: `create`, `list`, `unlink`, `rotate` or `delete`');
             return;
         }
 
         const action = params[0].toLowerCase();
-        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read);
+        if (action !== 'list' && !await this.checkRoomManager(sender, room, read, modify, 'its webhooks')) {
+            return;
+        }
+
+        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(sender, read, persis);
         
         if (!tokenInfo) {
             await this.sendNotification(modify, room, sender, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
@@ -557,8 +1641,22 @@ export class AsanaCommand implements ISlashCommand {
                 }
                 await this.deleteWebhook(sender, room, params[1], tokenInfo.access_token, read, modify, http, persis);
                 break;
+            case 'unlink':
+                if (params.length < 2) {
+                    await this.sendNotification(modify, room, sender, 'Please provide the resource ID to unlink from this room: `/asana webhook unlink <resource_id>`');
+                    return;
+                }
+                await this.unlinkWebhook(sender, room, params[1], tokenInfo.access_token, read, modify, http, persis);
+                break;
+            case 'rotate':
+                if (params.length < 2) {
+                    await this.sendNotification(modify, room, sender, 'Please provide a webhook ID to rotate: `/asana webhook rotate <webhook_id>`');
+                    return;
+                }
+                await this.rotateWebhook(sender, room, params[1], tokenInfo.access_token, read, modify, http, persis);
+                break;
             default:
-                await this.sendNotification(modify, room, sender, 'Invalid webhook action. Available actions: `create`, `list`, `delete`');
+                await this.sendNotification(modify, room, sender, 'Invalid webhook action. Available actions: `create`, `list`, `unlink`, `rotate`, `delete`');
                 break;
         }
     }
@@ -585,14 +1683,9 @@ export class AsanaCommand implements ISlashCommand {
         // get webhook URL
         let webhookUrl = '';
         try {
-            const serverSettings = read
-                .getEnvironmentReader()
-                .getServerSettings();
-            // get site url
-            const siteUrl = await serverSettings.getValueById("Site_Url");
-            this.app.getLogger().debug("Site_Url value:", siteUrl);
-
-            if (!siteUrl) {
+            const endpointUrl = await this.getWebhookEndpointUrl(read);
+
+            if (!endpointUrl) {
                 // return error
                 await this.sendNotification(
                     modify,
@@ -602,8 +1695,7 @@ export class AsanaCommand implements ISlashCommand {
                 );
                 return;
             } else {
-                const appId = this.app.getID();
-                webhookUrl = `${siteUrl}/api/apps/public/${appId}/webhook`;
+                webhookUrl = endpointUrl;
             }
         } catch (settingsError) {
             this.app.getLogger().error('Error getting server settings:', settingsError);
@@ -613,16 +1705,45 @@ export class AsanaCommand implements ISlashCommand {
         this.app.getLogger().debug('Using webhook URL:', webhookUrl);
 
         // use asana api to verify resource id and permission
-        const project = await apiService.getProjectById(accessToken, resourceId, http);
-        if (!project) {
-            await this.sendNotification(modify, room, sender, `Resource ID ${resourceId} does not appear to be a valid project or workspace ID that you have access to.`);
+        try {
+            await apiService.getProjectById(accessToken, resourceId, http);
+        } catch (error) {
+            const message = isAsanaError(error, AsanaErrorKind.NotFound) || isAsanaError(error, AsanaErrorKind.Forbidden)
+                ? `Resource ID ${resourceId} does not appear to be a valid project or workspace ID that you have access to.`
+                : error.message;
+            await this.sendNotification(modify, room, sender, message);
+            return;
+        }
+
+        // a resource has one webhook, further rooms subscribe to it
+        const subscriptions = await getSubscriptions(read, resourceId);
+        if (subscriptions.some((subscription) => subscription.roomId === room.id)) {
+            await this.sendNotification(modify, room, sender, `This room already receives notifications for resource \`${resourceId}\`.`);
+            return;
+        }
+
+        if (subscriptions.length > 0) {
+            const webhookId = subscriptions[0].webhookId;
+            await addSubscription(persis, {
+                webhookId,
+                resourceId,
+                roomId: room.id,
+                createdBy: sender.id,
+                createdAt: new Date().toISOString(),
+            });
+            await this.sendNotification(
+                modify,
+                room,
+                sender,
+                `Notifications for resource \`${resourceId}\` will also be sent to this room, through the existing webhook \`${webhookId}\` (${subscriptions.length + 1} rooms).`,
+            );
             return;
         }
 
         // create webhook
-        let webhook: any;
+        let webhook: IAsanaWebhook;
         try {
-            webhook = await apiService.createWebhook(accessToken, resourceId, webhookUrl, http);
+            webhook = await this.createKeyedWebhook(resourceId, webhookUrl, accessToken, read, http, persis);
             this.app.getLogger().debug('Webhook created successfully:', webhook);
         } catch (webhookError) {
             this.app.getLogger().error('Error from createWebhook API call:', webhookError);
@@ -632,39 +1753,16 @@ export class AsanaCommand implements ISlashCommand {
         }
 
         // if webhook created successfully, store the configuration
-        if (webhook && webhook.gid) {
+        if (webhook.gid) {
             try {
-                // create WebhookMapping data structure
-                const webhookMapping: WebhookMapping = {
+                await addSubscription(persis, {
                     webhookId: webhook.gid,
-                    resourceId: resourceId,
+                    resourceId,
                     roomId: room.id,
                     createdBy: sender.id,
                     createdAt: new Date().toISOString(),
-                };
-                  
-                // delete possible existing mapping relations
-                try {                    
-                    // delete resource_[resourceId] association
-                    const resourceAssociation = new RocketChatAssociationRecord(
-                        RocketChatAssociationModel.MISC, 
-                        `resource_${resourceId}`
-                    );
-                    await persis.removeByAssociation(resourceAssociation);
-                    
-                    this.app.getLogger().debug(`Deleted old mapping relations for resource ${resourceId}`);
-                } catch (removeError) {
-                    this.app.getLogger().debug(`Error removing old mapping relations:`, removeError);
-                    // continue execution, because old mapping may not exist
-                }
-                
-                // save resource ID to mapping relation
-                const resourceAssociation = new RocketChatAssociationRecord(
-                    RocketChatAssociationModel.MISC, 
-                    `resource_${resourceId}`
-                );
-                await persis.createWithAssociation(webhookMapping, resourceAssociation);
-                
+                });
+
                 this.app.getLogger().debug(`Successfully saved webhook configuration, ID: ${webhook.gid}, Resource ID: ${resourceId}, Room ID: ${room.id}`);
                 
                 await this.sendNotification(modify, room, sender, `Webhook created successfully! ID: \`${webhook.gid}\`\nNotifications for resource \`${resourceId}\` will be sent to this room.`);
@@ -677,6 +1775,159 @@ export class AsanaCommand implements ISlashCommand {
         }
     }
 
+    /**
+     * Stop sending the events of a resource to this room, the webhook is deleted once no room is left
+     */
+    private async unlinkWebhook(
+        sender: IUser,
+        room: IRoom,
+        resourceId: string,
+        accessToken: string,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        try {
+            const subscriptions = await getSubscriptions(read, resourceId);
+            const subscription = subscriptions.find((candidate) => candidate.roomId === room.id);
+            if (!subscription) {
+                await this.sendNotification(modify, room, sender, `This room does not receive notifications for resource \`${resourceId}\`.`);
+                return;
+            }
+
+            const remaining = await removeRoomSubscription(read, persis, resourceId, room.id);
+            if (remaining.length > 0) {
+                await this.sendNotification(
+                    modify,
+                    room,
+                    sender,
+                    `This room no longer receives notifications for resource \`${resourceId}\`, ${remaining.length} other ${remaining.length === 1 ? 'room still does' : 'rooms still do'}.`,
+                );
+                return;
+            }
+
+            await this.app.getApiService().deleteWebhook(accessToken, subscription.webhookId, http);
+            await removeWebhookSecret(persis, subscription.webhookId);
+            await this.sendNotification(
+                modify,
+                room,
+                sender,
+                `This room no longer receives notifications for resource \`${resourceId}\`. It was the last room, so webhook \`${subscription.webhookId}\` was deleted.`,
+            );
+        } catch (error) {
+            this.app.getLogger().error('Error unlinking webhook:', error);
+            await this.sendNotification(modify, room, sender, `Error unlinking resource: ${error.message}`);
+        }
+    }
+
+    /**
+     * Replace a webhook by a new one for the same resource, which goes through a new handshake and gets a new secret.
+     * The room subscriptions of the resource move over to the new webhook.
+     */
+    private async rotateWebhook(
+        sender: IUser,
+        room: IRoom,
+        webhookId: string,
+        accessToken: string,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
+        const apiService = this.app.getApiService();
+
+        try {
+            const oldWebhook = await apiService.getWebhook(accessToken, webhookId, http);
+            const resourceId = oldWebhook.resource.gid;
+
+            // the new webhook serves every room following the resource, so it is rotated from one of them
+            const roomSubscriptions = await getSubscriptions(read, resourceId);
+            if (!roomSubscriptions.some((subscription) => subscription.roomId === room.id)) {
+                await this.sendNotification(
+                    modify,
+                    room,
+                    sender,
+                    `This room does not receive notifications for resource \`${resourceId}\`, rotate webhook \`${webhookId}\` from a room that does.`,
+                );
+                return;
+            }
+
+            const endpointUrl = await this.getWebhookEndpointUrl(read);
+            if (!endpointUrl) {
+                await this.sendNotification(modify, room, sender, 'Warning: Server URL is not configured.');
+                return;
+            }
+
+            const webhook = await this.createKeyedWebhook(resourceId, endpointUrl, accessToken, read, http, persis);
+
+            const subscriptions = await setSubscriptionsWebhook(read, persis, resourceId, webhook.gid);
+
+            let warning = '';
+            try {
+                await apiService.deleteWebhook(accessToken, webhookId, http);
+            } catch (error) {
+                this.app.getLogger().error(`Error deleting rotated webhook ${webhookId}:`, error);
+                warning = `\nThe old webhook could not be deleted (${error.message}), please delete it with \`/asana webhook delete ${webhookId}\`.`;
+            }
+            await removeWebhookSecret(persis, webhookId);
+
+            const target = subscriptions.length > 0 ? `still go to the same ${subscriptions.length === 1 ? 'room' : 'rooms'}` : 'are not sent to any room yet';
+            await this.sendNotification(
+                modify,
+                room,
+                sender,
+                `🔄 Webhook \`${webhookId}\` was replaced by \`${webhook.gid}\` with a new secret. Notifications for resource \`${resourceId}\` ${target}.${warning}`,
+            );
+        } catch (error) {
+            this.app.getLogger().error('Error rotating webhook:', error);
+            await this.sendNotification(modify, room, sender, `Error rotating webhook: ${error.message}`);
+        }
+    }
+
+    /**
+     * URL of the app's webhook endpoint
+     * @returns undefined when the server URL is not configured
+     */
+    private async getWebhookEndpointUrl(read: IRead): Promise<string | undefined> {
+        const siteUrl = await read.getEnvironmentReader().getServerSettings().getValueById('Site_Url');
+        this.app.getLogger().debug('Site_Url value:', siteUrl);
+        return siteUrl ? `${siteUrl}/api/apps/public/${this.app.getID()}/webhook` : undefined;
+    }
+
+    /**
+     * Create a webhook whose target URL carries a new key, so the endpoint can keep its handshake secret apart from other webhooks
+     */
+    private async createKeyedWebhook(
+        resourceId: string,
+        endpointUrl: string,
+        accessToken: string,
+        read: IRead,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<IAsanaWebhook> {
+        const apiService = this.app.getApiService();
+        const key = createWebhookKey();
+        await registerPendingWebhook(persis, key);
+
+        let linked = false;
+        try {
+            const webhook = await apiService.createWebhook(accessToken, resourceId, getWebhookTarget(endpointUrl, key), http);
+            linked = await linkWebhookSecret(read, persis, key, webhook.gid);
+            if (!linked) {
+                // its events could never be verified, so don't keep it
+                this.app.getLogger().error(`No handshake secret stored for webhook ${webhook.gid}, deleting it`);
+                await apiService.deleteWebhook(accessToken, webhook.gid, http);
+                throw new Error('Asana did not complete the webhook handshake, please try again');
+            }
+            return webhook;
+        } finally {
+            if (!linked) {
+                await removePendingWebhook(persis, key);
+            }
+        }
+    }
+
     private async listWebhooks(sender: IUser, room: IRoom, accessToken: string, read: IRead, modify: IModify, http: IHttp): Promise<void> {
         const apiService = this.app.getApiService();
         
@@ -691,8 +1942,8 @@ export class AsanaCommand implements ISlashCommand {
         // Get webhooks for each workspace
         let allWebhooks: any[] = [];
         for (const workspace of workspaces) {
-            const webhooks = await apiService.getWebhooks(accessToken, workspace.gid, http);
-            if (webhooks && webhooks.length > 0) {
+            const { data: webhooks } = await apiService.getWebhooks(accessToken, workspace.gid, http);
+            if (webhooks.length > 0) {
                 allWebhooks = [...allWebhooks, ...webhooks.map(webhook => ({
                     ...webhook,
                     workspace: workspace.name
@@ -705,32 +1956,56 @@ export class AsanaCommand implements ISlashCommand {
             return;
         }
 
-        // Get webhook configurations from persistence
-        const userAssociation = new RocketChatAssociationRecord(RocketChatAssociationModel.USER, sender.id);
-        const webhookConfigs = await read.getPersistenceReader().readByAssociation(userAssociation);
-
         // Build message
         let message = '**Your Asana Webhooks:**\n\n';
         
-        allWebhooks.forEach((webhook) => {
-            // Find configuration for this webhook
-            const config = webhookConfigs?.find((config: any) => config.webhookId === webhook.gid) as { roomId: string } | undefined;
-            const roomInfo = config ? `Room: ${config.roomId}` : 'Not configured for any room';
+        for (const webhook of allWebhooks) {
+            // every room the resource of this webhook feeds
+            const subscriptions = await getSubscriptions(read, webhook.resource.gid);
+            const roomNames = await this.getRoomNames(read, subscriptions);
+            const roomInfo = roomNames.length > 0 ? `Rooms: ${roomNames.join(', ')}` : 'Not configured for any room';
             
             message += `- ID: \`${webhook.gid}\`\n`;
             // make resource name the bullet point of the resource id
             message += `- Resource: \`${webhook.resource.gid}\` (${webhook.resource.name || 'Unknown'})\n`;
             message += `- Workspace: ${webhook.workspace}\n`;
             message += `- Active: ${webhook.active ? 'Yes' : 'No'}\n`;
+            if (!hasWebhookKey(webhook.target)) {
+                message += `- Secret: shared with other old webhooks, run \`/asana webhook rotate ${webhook.gid}\` to give it its own\n`;
+            }
             message += `- ${roomInfo}\n\n`;
-        });
+        }
 
         message += `Total webhooks: ${allWebhooks.length}`;
 
         await this.sendNotification(modify, room, sender, message);
     }
 
-    private async deleteWebhook(sender: IUser, room: IRoom, webhookId: string, accessToken: string, read: IRead, modify: IModify, http: IHttp, persis: IPersistence): Promise<void> {
+    /**
+     * Names of the subscribed rooms, for replies that say where notifications go
+     */
+    private async getRoomNames(read: IRead, subscriptions: Array<IWebhookSubscription>): Promise<Array<string>> {
+        const roomNames: Array<string> = [];
+        for (const subscription of subscriptions) {
+            const subscribedRoom = await read.getRoomReader().getById(subscription.roomId);
+            roomNames.push(subscribedRoom ? `#${subscribedRoom.displayName || subscribedRoom.slugifiedName}` : `${subscription.roomId} (room not found)`);
+        }
+        return roomNames;
+    }
+
+    /**
+     * Delete a webhook once this room is the only one it delivers to, otherwise only unlink this room from it
+     */
+    private async deleteWebhook(
+        sender: IUser,
+        room: IRoom,
+        webhookId: string,
+        accessToken: string,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+    ): Promise<void> {
         const apiService = this.app.getApiService();
         
         // get webhook details to get resource ID
@@ -741,48 +2016,79 @@ export class AsanaCommand implements ISlashCommand {
                 `webhook_${webhookId}`
             );
             
-            const [webhookData] = await read.getPersistenceReader().readByAssociation(webhookAssociation) as [WebhookMapping | undefined];
+            const [webhookData] = await read.getPersistenceReader().readByAssociation(webhookAssociation) as [IWebhookSubscription | undefined];
             let resourceId = '';
             
             if (webhookData && webhookData.resourceId) {
                 resourceId = webhookData.resourceId;
-                this.app.getLogger().debug(`找到webhook ${webhookId} 关联的资源ID: ${resourceId}`);
+                this.app.getLogger().debug(`Found resource ${resourceId} of webhook ${webhookId}`);
+            } else {
+                // subscriptions are stored by resource, ask Asana which one the webhook is for
+                try {
+                    resourceId = (await apiService.getWebhook(accessToken, webhookId, http)).resource.gid;
+                } catch (error) {
+                    this.app.getLogger().debug(`Error getting the resource of webhook ${webhookId}:`, error);
+                }
+            }
+
+            // the webhook is shared by every room following the resource, only those rooms' managers may stop it for them
+            const subscriptions = resourceId ? (await getSubscriptions(read, resourceId)).filter((subscription) => subscription.webhookId === webhookId) : [];
+            const otherRooms = subscriptions.filter((subscription) => subscription.roomId !== room.id);
+            if (otherRooms.length > 0) {
+                const roomNames = (await this.getRoomNames(read, otherRooms)).join(', ');
+                if (otherRooms.length === subscriptions.length) {
+                    await this.sendNotification(
+                        modify,
+                        room,
+                        sender,
+                        `Webhook \`${webhookId}\` does not deliver to this room, only to ${roomNames}. It is deleted once those rooms run \`/asana webhook unlink ${resourceId}\`.`,
+                    );
+                    return;
+                }
+
+                await removeRoomSubscription(read, persis, resourceId, room.id);
+                await this.sendNotification(
+                    modify,
+                    room,
+                    sender,
+                    `This room no longer receives notifications for resource \`${resourceId}\`. Webhook \`${webhookId}\` was kept, as ${roomNames} still ${otherRooms.length === 1 ? 'uses' : 'use'} it.`,
+                );
+                return;
             }
             
             // delete webhook from Asana
-            const success = await apiService.deleteWebhook(accessToken, webhookId, http);
-            
-            if (!success) {
-                await this.sendNotification(modify, room, sender, `Failed to delete webhook \`${webhookId}\`. Please check the webhook ID and try again.`);
+            try {
+                await apiService.deleteWebhook(accessToken, webhookId, http);
+            } catch (error) {
+                await this.sendNotification(modify, room, sender, `Failed to delete webhook \`${webhookId}\`: ${error.message}`);
                 return;
             }
             
             // clear all associated persistent data
             try {
-                // 1. delete webhook ID mapping
+                // 1. delete webhook ID mapping and its secret
                 await persis.removeByAssociation(webhookAssociation);
-                this.app.getLogger().debug(`删除了webhook ${webhookId} 的映射`);
+                await removeWebhookSecret(persis, webhookId);
+                this.app.getLogger().debug(`Deleted the mapping of webhook ${webhookId}`);
                 
-                // 2. if resource ID exists, delete resource related mappings
+                // 2. if resource ID exists, delete this room's subscription, and the resource mapping once no room is left
                 if (resourceId) {
-                    // delete resource ID to mapping association
-                    const resourceAssociation = new RocketChatAssociationRecord(
-                        RocketChatAssociationModel.MISC, 
-                        `resource_${resourceId}`
-                    );
-                    await persis.removeByAssociation(resourceAssociation);
-                    
-                    // delete resource ID to webhook ID mapping
-                    const resourceMapAssociation = new RocketChatAssociationRecord(
-                        RocketChatAssociationModel.MISC, 
-                        `resource_webhook_map_${resourceId}`
-                    );
-                    await persis.removeByAssociation(resourceMapAssociation);
+                    const remaining = await removeRoomSubscription(read, persis, resourceId, room.id);
+                    if (remaining.length === 0) {
+                        const resourceMapAssociation = new RocketChatAssociationRecord(
+                            RocketChatAssociationModel.MISC,
+                            `resource_webhook_map_${resourceId}`,
+                        );
+                        await persis.removeByAssociation(resourceMapAssociation);
+                    }
                     
                     this.app.getLogger().debug(`deleted resource ${resourceId} related mappings`);
                 }
                 
-                await this.sendNotification(modify, room, sender, `Webhook \`${webhookId}\` has been successfully deleted, all associated mappings have been cleared.`);
+                const lostRooms = subscriptions.length > 0
+                    ? `This room no longer receives notifications for resource \`${resourceId}\`.`
+                    : 'No room received its notifications.';
+                await this.sendNotification(modify, room, sender, `Webhook \`${webhookId}\` has been successfully deleted. ${lostRooms}`);
             } catch (removeError) {
                 this.app.getLogger().error('Error deleting webhook data:', removeError);
                 await this.sendNotification(modify, room, sender, `Webhook \`${webhookId}\` has been deleted from Asana, but there was an error clearing local data. Please contact your administrator to check data consistency.`);
@@ -793,26 +2099,166 @@ export class AsanaCommand implements ISlashCommand {
         }
     }
 
+    /**
+     * Render one task as a list item with status, due date and notes preview
+     */
+    private formatTaskLine(task: IAsanaTask): string {
+        // Add notes preview if available
+        let notesPreview = '';
+        if (task.notes && task.notes.trim()) {
+            const truncatedNotes = task.notes.length > 50
+                ? task.notes.substring(0, 47) + '...'
+                : task.notes;
+            notesPreview = ` - _${truncatedNotes}_`;
+        }
+
+        return `- [${task.name}](${getTaskLink(task)}) ${task.completed ? '✅ Completed' : '⏳ In Progress'}${formatDueInfo(task.due_on)}${notesPreview}\n`;
+    }
+
+    /**
+     * Render one open task of the board view with assignee, due date and an overdue marker
+     */
+    private formatBoardTaskLine(task: IAsanaTask): string {
+        const assignee = task.assignee && task.assignee.name ? ` 👤 ${task.assignee.name}` : '';
+        const overdue = isOverdue(task.due_on) ? ' ⚠️ **Overdue**' : '';
+        return `- [${task.name}](${getTaskLink(task)})${assignee}${formatDueInfo(task.due_on)}${overdue}\n`;
+    }
+
+    /**
+     * Render the task detail view shared by `task` and the update commands
+     */
+    private formatTaskDetails(task: IAsanaTask): string {
+        let message = `**Task Details: ${task.name}**\n\n`;
+        message += `**Status:** ${task.completed ? '✅ Completed' : '⏳ In Progress'}\n`;
+
+        if (task.due_on) {
+            message += `**Due Date:** ${task.due_on}\n`;
+        }
+
+        if (task.assignee) {
+            message += `**Assignee:** ${task.assignee.name}\n`;
+        }
+
+        if (task.projects && task.projects.length > 0) {
+            message += `**Projects:** ${task.projects.map((p) => p.name || p.gid).join(', ')}\n`;
+        }
+
+        if (task.parent) {
+            message += `**Subtask of:** [${task.parent.name || task.parent.gid}](${getTaskLink(task.parent)})\n`;
+        }
+
+        if (task.tags && task.tags.length > 0) {
+            message += `**Tags:** ${task.tags.map((tag) => tag.name || tag.gid).join(', ')}\n`;
+        }
+
+        getCustomFieldValues(task).forEach((field) => {
+            message += `**${field.name}:** ${field.value}\n`;
+        });
+
+        if (task.notes) {
+            message += `\n**Description:**\n${task.notes}\n`;
+        }
+
+        message += `\n[View in Asana](${getTaskLink(task)})`;
+        return message;
+    }
+
     private async helpCommand(sender: IUser, room: IRoom, modify: IModify): Promise<void> {
         const message = `
             **Asana Integration Help**
 
             Available commands:
             - \`/asana auth\` - Authorize app to access your Asana account
-            - \`/asana tasks\` - List your Asana tasks
-            - \`/asana projects\` - List your Asana projects  
-            - \`/asana task <task_id>\` - Show details of a specific task
+            - \`/asana tasks [--field <name>=<value>] [--page <n>]\` - List your Asana tasks, optionally only those with a custom field value
+            - \`/asana projects [--page <n>]\` - List your Asana projects
+            - \`/asana project <project_id>\` - Show a project as a board of sections with their open tasks
+            - \`/asana task <task_id>\` - Show details of a specific task, with its subtasks as a checklist
+            - \`/asana subtask add <task_id> <name>\` - Add a subtask to a task
+            - \`/asana create\` - Open a form to create a new task
+            - \`/asana create <title>\` - Create a task assigned to you
+            - \`/asana complete <task_id>\` - Mark a task as complete
+            - \`/asana reopen <task_id>\` - Mark a completed task as incomplete
+            - \`/asana rename <task_id> <name>\` - Rename a task
+            - \`/asana due <task_id> <date>\` - Set the due date (YYYY-MM-DD, today, tomorrow, +3d) or \`none\` to clear it
+            - \`/asana assign <task_id> <@user|me>\` - Assign a task to a Rocket.Chat user (matched by email) or to yourself
+            - \`/asana unassign <task_id>\` - Remove the assignee of a task
+            - \`/asana move <task_id> <section>\` - Move a task to a section, given by ID or by name
+            - \`/asana tag <task_id> +<tag> -<tag>\` - Add and remove tags of a task, unknown tags are created
+            - \`/asana tag list\` - List the tags of your workspace
+            - \`/asana comment <task_id> <text>\` - Add a comment to a task, markdown formatting is kept
+            - \`/asana attach <task_id|task link>\` - Attach the last file you shared in this room (or thread) to a task
+            - \`/asana search <query> [--project <id|name>] [--assignee me] [--completed] [--field <name>=<value>] [--page <n>]\` - Search open (or completed) tasks in your workspace
+            - \`/asana workspace list\` - List your workspaces and show which one is used
+            - \`/asana workspace use <workspace_id|name> [--room]\` - Use a workspace for your commands, or with \`--room\` as the default of this room
+            - \`/asana workspace reset [--room]\` - Go back to the default workspace
             - \`/asana summary\` - Show summary of your Asana tasks
-            - \`/asana webhook create <resource_id>\` - Create a webhook for a project or workspace
-            - \`/asana webhook list\` - List all your webhooks
+            - \`/asana webhook create <resource_id>\` - Send notifications of a project or workspace to this room, several rooms can follow the same resource
+            - \`/asana webhook list\` - List all your webhooks with the rooms they notify
+            - \`/asana webhook unlink <resource_id>\` - Stop sending notifications of a resource to this room
+            - \`/asana webhook rotate <webhook_id>\` - Replace a webhook by a new one with a new secret, notifications keep going to the same room
             - \`/asana webhook delete <webhook_id>\` - Delete a webhook
+            - \`/asana notify set [--events <types>] [--fields <fields>] [--assignee <name|me|none>] [--section <name>] [--tag <name>] [--field <name>=<value>]\` - Only post the notifications of this room that match all given conditions
+            - \`/asana notify show\` - Show the notification filter of this room
+            - \`/asana notify reset\` - Post all notifications in this room again
+            - \`/asana notify mode <messages|threads|live|default>\` - Post task notifications as new messages, one thread per task, or one live card per task that is edited on every change
             - \`/asana logout\` - Logout and remove your Asana authorization
             - \`/asana help\` - Show this help message
+
+            Instead of a task or project ID, \`task\`, \`complete\`, \`assign\`, \`project\` and \`webhook create\` also accept part of its name and suggest matches to pick from.
+            Picking a task for \`assign\` without naming someone assigns it to you.
             `;
         await this.sendNotification(modify, room, sender, message);
     }
 
-    private async sendNotification(modify: IModify, room: IRoom, sender: IUser, message: string): Promise<void> {
+    /**
+     * Describe `--field` filters for list headers, e.g. "Priority = High, Status = Done"
+     */
+    private formatFieldFilters(filters: Array<ICustomFieldFilter>): string {
+        return filters.map((filter) => `${filter.name} = ${filter.value}`).join(', ');
+    }
+
+    /**
+     * Read the page number of a `--page <n>` flag, 1 when missing
+     */
+    private getPageParam(params: Array<string>): number {
+        const index = params.findIndex((param) => param.toLowerCase() === '--page');
+        return index >= 0 ? Math.max(1, parseInt(params[index + 1], 10) || 1) : 1;
+    }
+
+    /**
+     * Footer of a paged list telling how to show the next page
+     * @param truncated the list was cut off when loading it from Asana
+     * @param loaded how many items were loaded, when some of them were filtered out
+     */
+    private formatPageFooter(page: number, pageSize: number, total: number, truncated: boolean, loaded: number = total): string {
+        const start = (page - 1) * pageSize;
+        const end = Math.min(start + pageSize, total);
+
+        let footer = `\nShowing ${start + 1}-${end} of ${total}${truncated ? '+' : ''}`;
+        if (end < total) {
+            footer += ` - add \`--page ${page + 1}\` for more`;
+        }
+        if (truncated) {
+            footer += `\nOnly the first ${loaded} items were loaded from Asana.`;
+        }
+        return `${footer}\n`;
+    }
+
+    /**
+     * Tell the sender when they may not change the room's settings
+     * @param what The settings the command would change, e.g. "its notifications"
+     * @returns whether the sender may go on
+     */
+    private async checkRoomManager(sender: IUser, room: IRoom, read: IRead, modify: IModify, what: string): Promise<boolean> {
+        if (await canManageRoom(read, room, sender)) {
+            return true;
+        }
+
+        await this.sendNotification(modify, room, sender, `Only owners and moderators of this room can change ${what}.`);
+        return false;
+    }
+
+    private async sendNotification(modify: IModify, room: IRoom, sender: IUser, message: string, blocks?: BlockBuilder): Promise<void> {
         const notifier = modify.getNotifier();
         const messageBuilder = notifier.getMessageBuilder();
         
@@ -821,6 +2267,10 @@ export class AsanaCommand implements ISlashCommand {
             .setSender(sender)
             .setParseUrls(true)
             .setText(message);
+
+        if (blocks) {
+            messageBuilder.setBlocks(blocks);
+        }
         
         await notifier.notifyUser(sender, messageBuilder.getMessage());
     }
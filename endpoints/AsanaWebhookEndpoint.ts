@@ -4,7 +4,18 @@ import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket
 import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
 import { IUser } from '@rocket.chat/apps-engine/definition/users';
 import { App } from '@rocket.chat/apps-engine/definition/App';
-import * as crypto from 'crypto';
+import { AsanaApiService, IBatchResult } from '../lib/AsanaApiService';
+import { AsanaCache } from '../lib/AsanaCache';
+import { IAsanaProject, IAsanaTask } from '../lib/AsanaModels';
+import { AsanaOAuth2Service } from '../lib/AsanaOAuth2Service';
+import { getCustomFieldValues } from '../lib/CustomFields';
+import { addCardHistory, formatCardHistory, getLiveCard, saveLiveCard } from '../lib/LiveCards';
+import { getNotificationEventType, getNotificationFilter, INotificationFilter, matchesNotificationFilter, needsTask } from '../lib/NotificationFilters';
+import { getNotificationMode, NotificationMode } from '../lib/NotificationMode';
+import { getBroadcastEventTypes, getTaskThread, saveTaskThread } from '../lib/NotificationThreads';
+import { addTaskActionsBlock } from '../lib/TaskCard';
+import { getWebhookSecretByKey, isValidSignature, saveHandshakeSecret, WEBHOOK_KEY_PARAM } from '../lib/WebhookSecrets';
+import { getSubscriptions } from '../lib/WebhookSubscriptions';
 
 /**
  * Asana event payload interface definition
@@ -62,66 +73,10 @@ interface IAttachment {
  */
 type IMessageAttachment = IAttachment;
 
-/**
- * Webhook mapping relation data model
- */
-interface WebhookMapping {
-    // primary key: webhook ID
-    webhookId: string;
-    // associated resource ID (project ID or workspace ID)
-    resourceId: string;
-    // room ID to receive notifications
-    roomId: string;
-    // creator user ID
-    createdBy?: string;
-    // creation time
-    createdAt: string;
-    // whether the configuration is automatically created
-    autoCreated?: boolean;
-}
-
-/**
-    * Asana任务详情接口
- */
-interface IAsanaTaskDetails {
-    gid: string;
-    name: string;
-    notes?: string;
-    due_on?: string;
-    assignee?: {
-        gid: string;
-        name: string;
-    };
-    projects?: Array<{
-        gid: string;
-        name: string;
-    }>;
-    [key: string]: any;
-}
-
-/**
- * Asana project details interface
- */
-interface IAsanaProjectDetails {
-    gid: string;
-    name: string;
-    notes?: string;
-    archived?: boolean;
-    workspace?: {
-        gid: string;
-        name: string;
-    };
-    owner?: {
-        gid: string;
-        name: string;
-    };
-    [key: string]: any;
-}
-
 interface IAsanaApp extends App {
     getLogger(): ILogger;
-    getOAuth2Service(): any; // Asana OAuth2 Service
-    getApiService(): any; // Asana API Service
+    getOAuth2Service(): AsanaOAuth2Service;
+    getApiService(): AsanaApiService;
 }
 
 export class AsanaWebhookEndpoint extends ApiEndpoint {
@@ -140,13 +95,13 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         persis: IPersistence,
     ): Promise<IApiResponse> {
         // process handshake request
-        const handshakeResponse = await this.handleWebhookHandshake(request, persis);
+        const handshakeResponse = await this.handleWebhookHandshake(request, read, persis);
         if (handshakeResponse) {
             return handshakeResponse;
         }
 
         // Verify webhook signature for event payloads
-        const isValid = await this.verifyWebhookSignature(request, read, persis);
+        const isValid = await this.verifyWebhookSignature(request, read);
         if (!isValid) {
             return this.json({
                 status: HttpStatusCode.UNAUTHORIZED,
@@ -171,130 +126,97 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
     }
 
     /**
-     * handle Asana webhook handshake request
+     * handle Asana webhook handshake request, the secret is kept for the webhook named by the key in the target URL
      */
-    private async handleWebhookHandshake(request: IApiRequest, persis: IPersistence): Promise<IApiResponse | null> {
-        if (request.headers && request.headers['x-hook-secret']) {
-            const hookSecret = request.headers['x-hook-secret'];
-            this.app.getLogger().debug('received handshake request, secret:', hookSecret);
-            
-            // save secret
+    private async handleWebhookHandshake(request: IApiRequest, read: IRead, persis: IPersistence): Promise<IApiResponse | null> {
+        if (!request.headers || !request.headers['x-hook-secret']) {
+            return null;
+        }
+
+        const hookSecret = request.headers['x-hook-secret'];
+        const key = request.query && request.query[WEBHOOK_KEY_PARAM];
+        this.app.getLogger().debug(`received handshake request for webhook key ${key}`);
+
+        let saved = false;
+        if (key) {
             try {
-                // store the latest secret, for all webhook verification
-                const latestSecretAssociation = new RocketChatAssociationRecord(
-                        RocketChatAssociationModel.MISC, 
-                    'asana_webhook_secret_latest'
-                );
-                
-                await persis.updateByAssociation(latestSecretAssociation, { secret: hookSecret });
-                this.app.getLogger().debug('successfully saved the latest webhook secret');
-                
-                // save secret for all webhooks for backward compatibility
-                await persis.updateByAssociation(
-                    new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, 'asana_webhook_secret'),
-                    { secret: hookSecret }
-                );
+                saved = await saveHandshakeSecret(read, persis, key, hookSecret);
             } catch (error) {
                 this.app.getLogger().error('failed to save webhook secret:', error);
             }
-            
-            // response handshake request, return the same secret in headers
-            return {
-                status: HttpStatusCode.OK,
-                headers: {
-                    'X-Hook-Secret': hookSecret
+        }
+
+        if (!saved) {
+            // refusing the handshake makes Asana fail the create call, rather than create a webhook we cannot verify
+            this.app.getLogger().error(`rejected handshake for unknown or already confirmed webhook key ${key}`);
+            return this.json({
+                status: HttpStatusCode.BAD_REQUEST,
+                content: {
+                    error: 'Unknown webhook',
                 },
-                content: ''
-            };
+            });
         }
-        
-        return null;
+
+        // response handshake request, return the same secret in headers
+        return {
+            status: HttpStatusCode.OK,
+            headers: {
+                'X-Hook-Secret': hookSecret,
+            },
+            content: '',
+        };
     }
 
-    private async verifyWebhookSignature(request: IApiRequest, read: IRead, persis: IPersistence): Promise<boolean> {
+    /**
+     * Check the signature of an event delivery against the secret of its webhook.
+     * Webhooks created before secrets were kept per webhook have no key in their target URL,
+     * those are checked against the one secret stored back then until they are rotated.
+     */
+    private async verifyWebhookSignature(request: IApiRequest, read: IRead): Promise<boolean> {
         try {
-            // for handshake request, return true
-            if (request.headers && request.headers['x-hook-secret']) {
-                return true;
-            }
-
             // fetch signature from headers
             const signature = request.headers['x-hook-signature'] || request.headers['x-asana-request-signature'];
             if (!signature) {
-                this.app.getLogger().error('no webhook signature provided in headers:', request.headers);
+                this.app.getLogger().error('no webhook signature provided in headers');
                 return false;
             }
-            
-            // fetch all possible secrets
-            const secrets = await this.getAllStoredSecrets(read, null);
-            if (secrets.length === 0) {
-                this.app.getLogger().error('no webhook secret found in persistence');
+
+            const key = request.query && request.query[WEBHOOK_KEY_PARAM];
+            let secret: string | undefined;
+            if (key) {
+                const record = await getWebhookSecretByKey(read, key);
+                secret = record && record.secret;
+            } else {
+                this.app.getLogger().warn('webhook delivery without key, run `/asana webhook rotate` for its webhook');
+                secret = await this.getLegacySecret(read);
+            }
+
+            if (!secret) {
+                this.app.getLogger().error(`no webhook secret found for webhook key ${key}`);
                 return false;
             }
-            
-            // calculate the JSON string of request content
-            let requestContent = JSON.stringify(request.content);
-            
-            // try all secrets for verification
-            for (const [index, secret] of secrets.entries()) {
-                try {
-                    // create HMAC
-                    const hmac = crypto.createHmac('sha256', secret);
-                    hmac.update(requestContent);
-                    const calculatedSignature = hmac.digest('hex');
-                    
-                    this.app.getLogger().debug(`Secret #${index+1} calculated signature:`, calculatedSignature);
-                    
-                    if (signature === calculatedSignature) {
-                        this.app.getLogger().debug(`successfully verified webhook signature using secret #${index+1}`);
-                        return true;
-                    }
-                
-                } catch (signatureError) {
-                    this.app.getLogger().debug(`error calculating signature using secret #${index+1}:`, signatureError);
-                }
+
+            if (!isValidSignature(secret, JSON.stringify(request.content), signature)) {
+                this.app.getLogger().error(`webhook signature verification failed for webhook key ${key}`);
+                return false;
             }
 
-            this.app.getLogger().error('webhook signature verification failed, no matching secret') 
-            // signature verification failed, return false
-            return false;
+            return true;
         } catch (error) {
             this.app.getLogger().error('error verifying webhook signature:', error);
             return false;
         }
     }
-    
+
     /**
-     * get all possible webhook secrets
+     * the secret stored by the handshake of the most recent webhook created without a key
      */
-    private async getAllStoredSecrets(read: IRead, webhookId: string | null): Promise<string[]> {
-        const secrets: string[] = [];
-        
-        try {
-            // simplify secret fetching logic, prioritize the latest secret
-            // try to get the latest secret
-            try {
-                const latestSecretAssociation = new RocketChatAssociationRecord(
-                    RocketChatAssociationModel.MISC, 
-                    'asana_webhook_secret_latest'
-                );
-                
-                const [latestSecret] = await read.getPersistenceReader().readByAssociation(
-                    latestSecretAssociation
-                ) as [{ secret: string } | undefined];
-                
-                if (latestSecret && latestSecret.secret) {
-                    secrets.push(latestSecret.secret);
-                }
-            } catch (latestSecretError) {
-                this.app.getLogger().debug('error getting the latest secret:', latestSecretError);
-            }
-            
-            return secrets;
-        } catch (error) {
-            this.app.getLogger().error('error getting stored webhook secrets:', error);
-            return [];
-        }
+    private async getLegacySecret(read: IRead): Promise<string | undefined> {
+        const [latestSecret] = await read.getPersistenceReader().readByAssociation(
+            new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, 'asana_webhook_secret_latest'),
+        ) as [{ secret: string } | undefined];
+
+        return latestSecret && latestSecret.secret;
     }
 
     private async processEvents(events: any[], read: IRead, modify: IModify, http: IHttp, persis: IPersistence): Promise<void> {
@@ -324,8 +246,8 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
                 .debug(`Parent resource IDs: ${parentIds.join(", ")}`);
         }
 
-        // Deduplicate events
-        const uniqueEvents = this.deduplicateEvents(events);
+        // Deduplicate events, and drop system stories ("assigned to ...") the task events report already
+        const uniqueEvents = this.deduplicateEvents(events).filter((event) => !this.isSystemStory(event));
         if (uniqueEvents.length !== events.length) {
             this.app
                 .getLogger()
@@ -334,13 +256,8 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
                 );
         }
 
-        // Get all task events to fetch their project IDs
-        const taskEvents = uniqueEvents.filter(
-            (event) =>
-                event.resource &&
-                event.resource.resource_type === "task" &&
-                event.resource.gid
-        );
+        // Get all events about a task, comments included, to fetch their project IDs
+        const taskEvents = uniqueEvents.filter((event) => event.resource && !!this.getEventTaskId(event));
 
         // Get all project events and parent IDs
         const projectEvents = uniqueEvents.filter(
@@ -364,11 +281,14 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
 
         // use getAccessTokenForUser to get access token
         let accessToken = "";
+        // the user whose token loads the cached lookups
+        let cacheScope = this.app.getID();
         // get access token for the user, use app user instead of null
         try {
             const appUser = await read.getUserReader().getAppUser();
             if (appUser) {
-                const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(appUser, read);
+                cacheScope = appUser.id;
+                const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(appUser, read, persis);
                 if (tokenInfo && tokenInfo.access_token) {
                     accessToken = tokenInfo.access_token;
                 } else {
@@ -380,48 +300,52 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         } catch (error) {
             this.app.getLogger().error('error getting access token for the user:', error);
         }
-        
+
+        // all lookups below use the app user's token, so they share the app user's cache scope
+        const cache = new AsanaCache(this.app.getApiService(), read, persis, cacheScope);
+
+        // the events report changes, so drop the cached copies of the changed resources
+        for (const resourceId of new Set<string>(resourceIds)) {
+            try {
+                await cache.invalidate(resourceId);
+            } catch (error) {
+                this.app.getLogger().error(`error invalidating cached resource ${resourceId}:`, error);
+            }
+        }
+
         // For task events, retrieve project IDs using API
         if (taskEvents.length > 0) {
             // process task events to get project IDs
             if (accessToken) {
-                for (const taskEvent of taskEvents) {
-                    try {
-                        const taskId = taskEvent.resource.gid;
-                        const taskDetails = (await this.app
-                            .getApiService()
-                            .getTaskById(
-                                accessToken,
-                                taskId,
-                                http
-                            )) as IAsanaTaskDetails;
-
-                        if (
-                            taskDetails &&
-                            taskDetails.projects &&
-                            taskDetails.projects.length > 0
-                        ) {
-                            taskDetails.projects.forEach((project: any) => {
-                                if (project.gid) {
-                                    projectIds.add(project.gid);
-                                    this.app
-                                        .getLogger()
-                                        .debug(
-                                            `added project ID ${project.gid} from task ${taskId}`
-                                        );
-                                }
-                            });
-                        } else {
-                            this.app
-                                .getLogger()
-                                .debug(`no project found for task ${taskId}`);
-                        }
-                    } catch (error) {
-                        this.app
-                            .getLogger()
-                            .error(`error getting task details: ${error}`);
-                    }
+                // a bulk edit sends several events per task, look each task up once,
+                // and the tasks not cached yet ten at a time through the batch API
+                const taskIds = Array.from(new Set<string>(taskEvents.map((event) => this.getEventTaskId(event) as string)));
+                let taskResults: Array<IBatchResult<IAsanaTask>> = [];
+                try {
+                    taskResults = await cache.getTasks(accessToken, taskIds, http);
+                } catch (error) {
+                    this.app.getLogger().error(`error getting task details: ${error}`);
                 }
+
+                taskResults.forEach((result, index) => {
+                    const taskId = taskIds[index];
+                    if (result.error) {
+                        this.app.getLogger().error(`error getting task ${taskId} details: ${result.error.message}`);
+                        return;
+                    }
+
+                    const taskDetails = result.data;
+                    if (taskDetails && taskDetails.projects && taskDetails.projects.length > 0) {
+                        taskDetails.projects.forEach((project) => {
+                            if (project.gid) {
+                                projectIds.add(project.gid);
+                                this.app.getLogger().debug(`added project ID ${project.gid} from task ${taskId}`);
+                            }
+                        });
+                    } else {
+                        this.app.getLogger().debug(`no project found for task ${taskId}`);
+                    }
+                });
             } else {
                 this.app.getLogger().warn(`error getting access token, cannot get task details`);
             }
@@ -452,54 +376,40 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
             // Process each project ID to find configurations and handle events
             for (const projectId of projectIds) {
                 try {
-                    // Find configuration by project ID
-                    const mapping = await this.getWebhookMappingByResourceId(
-                        projectId,
-                        read
-                    );
+                    // every room subscribed to the project gets the events
+                    const subscriptions = await getSubscriptions(read, projectId);
+                    if (subscriptions.length === 0) {
+                        this.app.getLogger().debug(`No mapping found for project ${projectId}`);
+                        continue;
+                    }
 
-                    if (mapping && mapping.roomId) {
-                        this.app
-                            .getLogger()
-                            .debug(
-                                `Found mapping for project ${projectId}: roomId=${mapping.roomId}, webhookId=${mapping.webhookId}`
-                            );
+                    for (const subscription of subscriptions) {
+                        if (processedRooms.has(subscription.roomId)) {
+                            continue;
+                        }
+
+                        this.app.getLogger().debug(
+                            `Found mapping for project ${projectId}: roomId=${subscription.roomId}, webhookId=${subscription.webhookId}`,
+                        );
 
-                        if (processedRooms.has(mapping.roomId)) {
+                        const room = await read.getRoomReader().getById(subscription.roomId);
+                        if (!room) {
+                            this.app.getLogger().warn(`Room not found: ${subscription.roomId}`);
                             continue;
                         }
 
-                        const room = await read
-                            .getRoomReader()
-                            .getById(mapping.roomId);
-                        if (room) {
-                            // Process events for this room
-                            for (const event of uniqueEvents) {
-                                await this.processEvent(
-                                    event,
-                                    room,
-                                    read,
-                                    modify,
-                                    http,
-                                    accessToken || ""
-                                );
+                        // Process events for this room, skipping the ones its notification filter leaves out
+                        const filter = await getNotificationFilter(read, room.id);
+                        for (const event of uniqueEvents) {
+                            if (filter && !await this.isWantedByRoom(event, filter, http, cache, accessToken)) {
+                                this.app.getLogger().debug(`event ${event.action} ${event.resource.gid} filtered out for room ${room.id}`);
+                                continue;
                             }
-
-                            processedRooms.add(mapping.roomId);
-                            this.app
-                                .getLogger()
-                                .debug(
-                                    `Messages sent to room ${mapping.roomId}`
-                                );
-                        } else {
-                            this.app
-                                .getLogger()
-                                .warn(`Room not found: ${mapping.roomId}`);
+                            await this.processEvent(event, room, read, modify, http, persis, cache, accessToken || '');
                         }
-                    } else {
-                        this.app
-                            .getLogger()
-                            .debug(`No mapping found for project ${projectId}`);
+
+                        processedRooms.add(subscription.roomId);
+                        this.app.getLogger().debug(`Messages sent to room ${subscription.roomId}`);
                     }
                 } catch (error) {
                     this.app
@@ -527,6 +437,53 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
             .warn(`No suitable webhook configuration found for these events`);
     }
     
+    /**
+     * check an event against the notification filter of a room, loading the task when the filter has task conditions
+     */
+    private async isWantedByRoom(
+        event: IAsanaEventPayload,
+        filter: INotificationFilter,
+        http: IHttp,
+        cache: AsanaCache,
+        accessToken: string,
+    ): Promise<boolean> {
+        const taskId = this.getEventTaskId(event);
+
+        let task: IAsanaTask | null = null;
+        const wantsCompletion = filter.events && filter.events.some((type) => type === 'completed' || type === 'reopened');
+        if (taskId && accessToken && (needsTask(filter) || wantsCompletion)) {
+            try {
+                task = await cache.getTask(accessToken, taskId, http);
+            } catch (error) {
+                this.app.getLogger().error(`error getting task ${taskId} to filter notifications: ${error}`);
+            }
+        }
+
+        return matchesNotificationFilter(filter, event, task);
+    }
+
+    /**
+     * the task an event is about, a comment (story) is about the task it was added to
+     */
+    private getEventTaskId(event: IAsanaEventPayload): string | undefined {
+        switch (event.resource.resource_type) {
+            case 'task':
+                return event.resource.gid;
+            case 'story':
+                return event.parent && event.parent.resource_type === 'task' ? event.parent.gid : undefined;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * whether an event adds a story other than a comment, the story subscription delivers all of them
+     */
+    private isSystemStory(event: IAsanaEventPayload): boolean {
+        const subtype = event.resource && event.resource.resource_type === 'story' ? event.resource.resource_subtype : undefined;
+        return !!subtype && subtype !== 'comment_added';
+    }
+
     /**
      * deduplicate events
      * deduplicate events based on user.gid, action and resource.gid
@@ -577,6 +534,8 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         read: IRead,
         modify: IModify,
         http: IHttp,
+        persis: IPersistence,
+        cache: AsanaCache,
         accessToken: string | ""
     ): Promise<void> {
         try {
@@ -589,14 +548,17 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
                 return;
             }
         
+            // in live card mode, a task's one card in the room is edited instead
+            const taskId = this.getEventTaskId(event);
+            const mode = taskId ? await getNotificationMode(read, room.id) : NotificationMode.Messages;
+            if (taskId && mode === NotificationMode.LiveCards) {
+                await this.updateLiveCard(event, taskId, room, appUser, read, modify, http, persis, cache, accessToken || '');
+                return;
+            }
+
             // process different types of events
-            const attachments = await this.formatEventMessage(event, read, http, accessToken || '');
+            const attachments = await this.formatEventMessage(event, read, http, cache, accessToken || '');
             if (attachments && attachments.length > 0) {
-
-                const messageBuilder = modify.getCreator().startMessage()
-                    .setRoom(room)
-                    .setSender(appUser);
-                
                 let title = '';
                 const resourceType = event.resource.resource_type;
                 const action = event.action;
@@ -618,15 +580,65 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
                         title = `🔔 Asana Notification: ${resourceType} ${action}`;
                 }
                 
-                messageBuilder.setText(title);
-                
-                // add attachments
-                attachments.forEach(attachment => {
-                    messageBuilder.addAttachment(attachment);
-                });
-                
-                await modify.getCreator().finish(messageBuilder);
-                this.app.getLogger().debug(`message sent to room ${room.id}`);
+                const buildMessage = () => {
+                    const messageBuilder = modify.getCreator().startMessage()
+                        .setRoom(room)
+                        .setSender(appUser)
+                        .setText(title);
+
+                    // add attachments
+                    attachments.forEach((attachment) => {
+                        messageBuilder.addAttachment(attachment);
+                    });
+
+                    // task cards get action buttons, which run with the clicking user's own token
+                    if (resourceType === 'task' && action !== 'removed' && action !== 'deleted') {
+                        messageBuilder.addBlocks(addTaskActionsBlock(modify.getCreator().getBlockBuilder(), event.resource.gid));
+                    }
+                    return messageBuilder;
+                };
+
+                // the first notification about a task starts its thread in the room, later ones reply there
+                if (!taskId || mode !== NotificationMode.Threads) {
+                    await modify.getCreator().finish(buildMessage());
+                    this.app.getLogger().debug(`message sent to room ${room.id}`);
+                    return;
+                }
+
+                let threadId = await getTaskThread(read, room.id, taskId);
+                if (threadId && !await read.getMessageReader().getById(threadId)) {
+                    // the first message was deleted, start over
+                    threadId = undefined;
+                }
+
+                if (!threadId) {
+                    const messageId = await modify.getCreator().finish(buildMessage());
+                    await saveTaskThread(persis, room.id, taskId, messageId);
+                    this.app.getLogger().debug(`started thread ${messageId} for task ${taskId} in room ${room.id}`);
+                    return;
+                }
+
+                await modify.getCreator().finish(buildMessage().setThreadId(threadId));
+                this.app.getLogger().debug(`message sent to thread ${threadId} in room ${room.id}`);
+
+                // the apps engine cannot flag a reply as also sent to the channel, so important events get a copy there
+                const broadcastTypes = await getBroadcastEventTypes(read);
+                if (broadcastTypes.length === 0) {
+                    return;
+                }
+
+                let task: IAsanaTask | null = null;
+                try {
+                    // tells a completion from a reopening, the task is cached by now
+                    task = accessToken ? await cache.getTask(accessToken, taskId, http) : null;
+                } catch (error) {
+                    this.app.getLogger().error(`error getting task ${taskId}: ${error}`);
+                }
+
+                if (broadcastTypes.indexOf(getNotificationEventType(event, task)) !== -1) {
+                    await modify.getCreator().finish(buildMessage());
+                    this.app.getLogger().debug(`message also sent to room ${room.id}`);
+                }
             } else {
                 this.app.getLogger().warn(`no attachments created for the event, skip sending message`);
             }
@@ -635,6 +647,111 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         }
     }
     
+    /**
+     * Show an event on the live card of its task: the card is posted on the first event for the task in the room,
+     * and edited on later ones to show the current state of the task and its latest changes
+     */
+    private async updateLiveCard(
+        event: IAsanaEventPayload,
+        taskId: string,
+        room: IRoom,
+        appUser: IUser,
+        read: IRead,
+        modify: IModify,
+        http: IHttp,
+        persis: IPersistence,
+        cache: AsanaCache,
+        accessToken: string,
+    ): Promise<void> {
+        // moving a task sends a removal from the old section next to the addition to the new one, the addition tells it all
+        if (event.action === 'removed' && event.parent && event.parent.resource_type === 'section') {
+            return;
+        }
+
+        const userName = await this.getEventUserName(event, http, cache, accessToken);
+
+        // the card shows the task, also when the event is a comment on it
+        const taskEvent: IAsanaEventPayload = event.resource.resource_type === 'task'
+            ? event
+            : { ...event, action: 'changed', resource: { gid: taskId, resource_type: 'task' } };
+        const attachment = await this.formatTaskEvent(taskEvent, accessToken, http, cache, userName);
+        // the history below says what happened
+        delete attachment.text;
+
+        let task: IAsanaTask | null = null;
+        try {
+            task = accessToken ? await cache.getTask(accessToken, taskId, http) : null;
+        } catch (error) {
+            this.app.getLogger().error(`error getting task ${taskId}: ${error}`);
+        }
+
+        const card = await getLiveCard(read, room.id, taskId);
+        const message = card ? await read.getMessageReader().getById(card.messageId) : undefined;
+        const history = addCardHistory(card && message ? card.history : [], `${this.describeCardChange(event, task)} by ${userName}`);
+        const attachments: Array<IMessageAttachment> = [
+            attachment,
+            { color: '#CCCCCC', text: `**Recent changes**\n${formatCardHistory(history)}` },
+        ];
+
+        if (card && message) {
+            const updater = await modify.getUpdater().message(card.messageId, appUser);
+            updater.setEditor(appUser).setAttachments(attachments);
+            await modify.getUpdater().finish(updater);
+            await saveLiveCard(persis, { ...card, history });
+            this.app.getLogger().debug(`live card ${card.messageId} of task ${taskId} updated in room ${room.id}`);
+            return;
+        }
+
+        // the first event for the task, or its card was deleted
+        const builder = modify.getCreator().startMessage()
+            .setRoom(room)
+            .setSender(appUser)
+            .setText('📋 Asana Task')
+            .setAttachments(attachments);
+        if (event.action !== 'deleted') {
+            builder.addBlocks(addTaskActionsBlock(modify.getCreator().getBlockBuilder(), taskId));
+        }
+
+        const messageId = await modify.getCreator().finish(builder);
+        await saveLiveCard(persis, { roomId: room.id, taskId, messageId, history });
+        this.app.getLogger().debug(`live card ${messageId} of task ${taskId} posted in room ${room.id}`);
+    }
+
+    /**
+     * a short line for the history of a live card
+     * @param task The task after the event
+     */
+    private describeCardChange(event: IAsanaEventPayload, task: IAsanaTask | null): string {
+        switch (getNotificationEventType(event, task)) {
+            case 'added':
+                return '🆕 created';
+            case 'moved': {
+                const sectionId = event.parent && event.parent.gid;
+                const membership = (task && task.memberships || []).find((candidate) => !!candidate.section && candidate.section.gid === sectionId);
+                return membership && membership.section && membership.section.name ? `📂 moved to **${membership.section.name}**` : '📂 moved';
+            }
+            case 'completed':
+                return '✅ completed';
+            case 'reopened':
+                return '🔄 reopened';
+            case 'assigned':
+                return task && task.assignee ? `👤 assigned to ${task.assignee.name || task.assignee.gid}` : '👤 assignee changed';
+            case 'due':
+                return task ? `📅 due date ${task.due_on ? `set to ${task.due_on}` : 'removed'}` : '📅 due date changed';
+            case 'commented':
+                return '💬 commented';
+            case 'removed':
+                return event.action === 'deleted' ? '🗑️ deleted' : '🗑️ removed';
+            default: {
+                const field = event.change && event.change.field;
+                if (field === 'name') {
+                    return task ? `✏️ renamed to "${task.name}"` : '✏️ renamed';
+                }
+                return field ? `🔄 changed ${field}` : '🔄 updated';
+            }
+        }
+    }
+
     private getActionText(action: string): string {
         switch (action) {
             case 'added':
@@ -659,72 +776,34 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
     /**
      * get webhook mapping by resource ID
      */
-    private async getWebhookMappingByResourceId(resourceId: string, read: IRead): Promise<WebhookMapping | null> {
-        try {
-            // get full mapping by resource_[resourceId]
-            const resourceAssociation = new RocketChatAssociationRecord(
-                RocketChatAssociationModel.MISC, 
-                `resource_${resourceId}`
-            );
-            
-            const mappingResults = await read.getPersistenceReader().readByAssociation(resourceAssociation);
-            const [mappingResult] = mappingResults as [WebhookMapping | undefined];
-
-            if (mappingResult) {
-                this.app.getLogger().debug(`found mapping by resource_${resourceId}: ${JSON.stringify(mappingResult)}`);
-                return mappingResult;
-            }
-            
-            this.app.getLogger().debug(`no mapping found for resource ID ${resourceId}`);
-            return null;
-        } catch (error) {
-            this.app.getLogger().error(`error getting mapping by resource ID:`, error);
-            return null;
-        }
-    }
-
     /**
      * get event details and format as message
      */
-    private async formatEventMessage(event: IAsanaEventPayload, read: IRead, http: IHttp, accessToken: string | "" = ""): Promise<IMessageAttachment[]> {
-        const attachments: IAttachment[] = [];
+    private async formatEventMessage(
+        event: IAsanaEventPayload,
+        read: IRead,
+        http: IHttp,
+        cache: AsanaCache,
+        accessToken: string = '',
+    ): Promise<Array<IMessageAttachment>> {
+        const attachments: Array<IAttachment> = [];
         const type = event.resource.resource_type;
+        const userName = await this.getEventUserName(event, http, cache, accessToken);
 
-        let userName = "unknown user";
-        
-        // fetch user name from asana api
-        if (event.user && event.user.gid && accessToken) {
-            try {
-                const userData = await this.app.getApiService().getUserById(accessToken, event.user.gid, http);
-                
-                if (userData && userData.name) {
-                    userName = userData.name;
-                } else {
-                    userName = `user ${event.user.gid}`;
-                }
-            } catch (error) {
-                this.app.getLogger().error(`error getting user info: ${error}`);
-                userName = `user ${event.user.gid}`;
-            }
-        } else {
-            this.app.getLogger().debug('no user info in event, using default name');
-        }
-
-  
         try {
             // format different types of events
             switch (type) {
                 case 'task':
-                    attachments.push(await this.formatTaskEvent(event, accessToken, http, userName));
+                    attachments.push(await this.formatTaskEvent(event, accessToken, http, cache, userName));
                     break;
                 case 'project':
-                    attachments.push(await this.formatProjectEvent(event, accessToken, http, userName));
+                    attachments.push(await this.formatProjectEvent(event, accessToken, http, cache, userName));
                     break;
                 case 'story':
-                    attachments.push(await this.formatStoryEvent(event, accessToken, http, userName));
+                    attachments.push(await this.formatStoryEvent(event, accessToken, http, cache, userName));
                     break;
                 case 'section':
-                    attachments.push(await this.formatSectionEvent(event, accessToken, http, userName));
+                    attachments.push(await this.formatSectionEvent(event, accessToken, http, cache, userName));
                     break;
                 default:
                     this.app.getLogger().debug(`unsupported resource type: ${type}`);
@@ -744,6 +823,24 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         return attachments;
     }
 
+    /**
+     * name of the user who caused an event, fetched from asana api
+     */
+    private async getEventUserName(event: IAsanaEventPayload, http: IHttp, cache: AsanaCache, accessToken: string): Promise<string> {
+        if (!event.user || !event.user.gid || !accessToken) {
+            this.app.getLogger().debug('no user info in event, using default name');
+            return 'unknown user';
+        }
+
+        try {
+            const userData = await cache.getUser(accessToken, event.user.gid, http);
+            return userData && userData.name ? userData.name : `user ${event.user.gid}`;
+        } catch (error) {
+            this.app.getLogger().error(`error getting user info: ${error}`);
+            return `user ${event.user.gid}`;
+        }
+    }
+
     /**
      * format task related events
      */
@@ -751,25 +848,20 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         event: IAsanaEventPayload,
         accessToken: string | "",
         http: IHttp,
+        cache: AsanaCache,
         userName: string
     ): Promise<IAttachment> {
         const taskId = event.resource.gid;
         const action = event.action;
 
         // get task details
-        let taskDetails: IAsanaTaskDetails | null = null;
-        let projectDetails: IAsanaProjectDetails | null = null;
+        let taskDetails: IAsanaTask | null = null;
+        let projectDetails: IAsanaProject | null = null;
 
         try {
             // try to get task details
             if (accessToken) {
-                taskDetails = (await this.app
-                    .getApiService()
-                    .getTaskById(
-                        accessToken,
-                        taskId,
-                        http
-                    )) as IAsanaTaskDetails;
+                taskDetails = await cache.getTask(accessToken, taskId, http);
 
                 // if the task has projects, get the first project details
                 if (
@@ -778,13 +870,7 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
                     taskDetails.projects.length > 0
                 ) {
                     const projectId = taskDetails.projects[0].gid;
-                    projectDetails = (await this.app
-                        .getApiService()
-                        .getProjectById(
-                            accessToken,
-                            projectId,
-                            http
-                        )) as IAsanaProjectDetails;
+                    projectDetails = await cache.getProject(accessToken, projectId, http);
                 }
             }
         } catch (error) {
@@ -922,6 +1008,15 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
                 });
             }
 
+            // add custom field values, e.g. priority or story points
+            getCustomFieldValues(taskDetails).forEach((field) => {
+                attachment.fields?.push({
+                    short: true,
+                    title: field.name,
+                    value: field.value,
+                });
+            });
+
             // add task description
             if (taskDetails.notes && taskDetails.notes.trim() !== "") {
                 const truncatedNotes =
@@ -947,18 +1042,19 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         event: IAsanaEventPayload,
         accessToken: string | "",
         http: IHttp,
+        cache: AsanaCache,
         userName: string
     ): Promise<IAttachment> {
         const projectId = event.resource.gid;
         const action = event.action;
         
         // get project details
-        let projectDetails: IAsanaProjectDetails | null = null;
+        let projectDetails: IAsanaProject | null = null;
         
         try {
             // try to get project details
             if (accessToken) {
-                projectDetails = await this.app.getApiService().getProjectById(accessToken, projectId, http) as IAsanaProjectDetails;
+                projectDetails = await cache.getProject(accessToken, projectId, http);
             }
         } catch (error) {
             this.app.getLogger().error('error getting project details:', error);
@@ -1049,6 +1145,7 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         event: IAsanaEventPayload,
         accessToken: string | "",
         http: IHttp,
+        cache: AsanaCache,
         userName: string
     ): Promise<IAttachment> {
         const sectionId = event.resource.gid;
@@ -1056,13 +1153,13 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         
         // section details and associated project
         let sectionName = event.resource.name || `section ${sectionId}`;
-        let projectDetails: IAsanaProjectDetails | null = null;
+        let projectDetails: IAsanaProject | null = null;
         
         try {
             // try to get associated project
             if (accessToken && event.parent && event.parent.gid && event.parent.resource_type === 'project') {
                 const projectId = event.parent.gid;
-                projectDetails = await this.app.getApiService().getProjectById(accessToken, projectId, http) as IAsanaProjectDetails;
+                projectDetails = await cache.getProject(accessToken, projectId, http);
             }
         } catch (error) {
             this.app.getLogger().error('error getting section details:', error);
@@ -1156,32 +1253,41 @@ export class AsanaWebhookEndpoint extends ApiEndpoint {
         event: IAsanaEventPayload,
         accessToken: string | "",
         http: IHttp,
+        cache: AsanaCache,
         userName: string
     ): Promise<IAttachment> {
         const storyId = event.resource.gid;
         
         // comment (story) is usually associated with a task
-        let taskDetails: IAsanaTaskDetails | null = null;
-        let projectDetails: IAsanaProjectDetails | null = null;
+        let taskDetails: IAsanaTask | null = null;
+        let projectDetails: IAsanaProject | null = null;
         
         try {
             // try to get task details
             if (accessToken && event.parent && event.parent.gid && event.parent.resource_type === 'task') {
                 const taskId = event.parent.gid;
-                taskDetails = await this.app.getApiService().getTaskById(accessToken, taskId, http) as IAsanaTaskDetails;
+                taskDetails = await cache.getTask(accessToken, taskId, http);
                 
                 // if the task has a project, get the first project details
                 if (taskDetails && taskDetails.projects && taskDetails.projects.length > 0) {
                     const projectId = taskDetails.projects[0].gid;
-                    projectDetails = await this.app.getApiService().getProjectById(accessToken, projectId, http) as IAsanaProjectDetails;
+                    projectDetails = await cache.getProject(accessToken, projectId, http);
                 }
             }
         } catch (error) {
             this.app.getLogger().error('error getting comment/story details:', error);
         }
         
-        // prepare comment text
+        // events only carry the story's gid, load its text
         let commentText = event.text || '';
+        if (!commentText && accessToken) {
+            try {
+                const story = await this.app.getApiService().getStory(accessToken, storyId, http);
+                commentText = story.text || '';
+            } catch (error) {
+                this.app.getLogger().error(`error getting comment ${storyId}:`, error);
+            }
+        }
         if (commentText.length > 500) {
             commentText = commentText.substring(0, 497) + '...';
         }
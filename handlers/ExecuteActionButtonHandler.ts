@@ -0,0 +1,126 @@
+import { IHttp, ILogger, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { App } from '@rocket.chat/apps-engine/definition/App';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import { IUIKitResponse, UIKitActionButtonInteractionContext } from '@rocket.chat/apps-engine/definition/uikit';
+import { IUser } from '@rocket.chat/apps-engine/definition/users';
+import { AsanaApiService } from '../lib/AsanaApiService';
+import { AsanaOAuth2Service } from '../lib/AsanaOAuth2Service';
+import { getMessagePermalink } from '../lib/MessagePermalink';
+import { resolveWorkspaceId } from '../lib/WorkspaceResolver';
+import { attachFileModal, saveAttachFileState } from '../modals/AttachFileModal';
+import { createTaskModal, ICreateTaskModalState, saveCreateTaskState } from '../modals/CreateTaskModal';
+
+interface IAsanaApp extends App {
+    getLogger(): ILogger;
+    getOAuth2Service(): AsanaOAuth2Service;
+    getApiService(): AsanaApiService;
+}
+
+/**
+ * Action IDs of the buttons registered by the app
+ */
+export enum ActionButton {
+    CreateTaskFromMessage = 'asana_create_task_from_message',
+    AttachFileToTask = 'asana_attach_file_to_task',
+}
+
+export class ExecuteActionButtonHandler {
+    constructor(
+        private readonly app: IAsanaApp,
+        private readonly read: IRead,
+        private readonly http: IHttp,
+        private readonly persis: IPersistence,
+        private readonly modify: IModify,
+    ) {}
+
+    public async run(context: UIKitActionButtonInteractionContext): Promise<IUIKitResponse> {
+        const { actionId, user, room } = context.getInteractionData();
+
+        try {
+            switch (actionId) {
+                case ActionButton.CreateTaskFromMessage:
+                    return await this.createTaskFromMessage(context);
+                case ActionButton.AttachFileToTask:
+                    return await this.attachFileFromMessage(context);
+                default:
+                    return context.getInteractionResponder().successResponse();
+            }
+        } catch (error) {
+            this.app.getLogger().error(`Action button ${actionId} error:`, error);
+            await this.notify(user, room, `Error: ${error.message}`);
+            return context.getInteractionResponder().errorResponse();
+        }
+    }
+
+    /**
+     * open the create task modal prefilled from the message, replying in its thread once created
+     */
+    private async createTaskFromMessage(context: UIKitActionButtonInteractionContext): Promise<IUIKitResponse> {
+        const { user, room, message } = context.getInteractionData();
+        const responder = context.getInteractionResponder();
+
+        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(user, this.read, this.persis);
+        if (!tokenInfo) {
+            await this.notify(user, room, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+            return responder.successResponse();
+        }
+
+        if (!message || !message.id) {
+            return responder.errorResponse();
+        }
+
+        const text = (message.text || '').trim();
+        const permalink = await getMessagePermalink(this.read, room, message.id);
+        const notes = [text, permalink ? `From Rocket.Chat: ${permalink}` : ''].filter(Boolean).join('\n\n');
+
+        const apiService = this.app.getApiService();
+        const state: ICreateTaskModalState = {
+            roomId: room.id,
+            threadId: message.threadId || message.id,
+            workspaceId: await resolveWorkspaceId(apiService, tokenInfo.access_token, this.read, this.http, user, room),
+            name: text.split('\n')[0].substring(0, 255),
+            notes,
+        };
+        await saveCreateTaskState(this.persis, user.id, state);
+
+        const modal = await createTaskModal(apiService, state, tokenInfo.access_token, this.modify, this.http);
+        return responder.openModalViewResponse(modal);
+    }
+
+    /**
+     * ask which task the file of the message should be attached to
+     */
+    private async attachFileFromMessage(context: UIKitActionButtonInteractionContext): Promise<IUIKitResponse> {
+        const { user, room, message } = context.getInteractionData();
+        const responder = context.getInteractionResponder();
+
+        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(user, this.read, this.persis);
+        if (!tokenInfo) {
+            await this.notify(user, room, 'You have not authorized Asana yet. Please run `/asana auth` command first.');
+            return responder.successResponse();
+        }
+
+        if (!message || !message.id) {
+            return responder.errorResponse();
+        }
+
+        if (!message.file) {
+            await this.notify(user, room, 'This message has no file to attach.');
+            return responder.successResponse();
+        }
+
+        await saveAttachFileState(this.persis, user.id, { roomId: room.id, messageId: message.id, file: message.file });
+        return responder.openModalViewResponse(attachFileModal(this.modify, message.file.name));
+    }
+
+    private async notify(user: IUser, room: IRoom, text: string): Promise<void> {
+        const notifier = this.modify.getNotifier();
+        const appUser = await this.read.getUserReader().getAppUser();
+        const messageBuilder = notifier.getMessageBuilder()
+            .setRoom(room)
+            .setSender(appUser || user)
+            .setText(text);
+
+        await notifier.notifyUser(user, messageBuilder.getMessage());
+    }
+}
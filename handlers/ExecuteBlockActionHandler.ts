@@ -0,0 +1,135 @@
+import { IHttp, ILogger, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { App } from '@rocket.chat/apps-engine/definition/App';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import { IUIKitResponse, UIKitBlockInteractionContext } from '@rocket.chat/apps-engine/definition/uikit';
+import { IUser } from '@rocket.chat/apps-engine/definition/users';
+import { AsanaApiService } from '../lib/AsanaApiService';
+import { AsanaOAuth2Service } from '../lib/AsanaOAuth2Service';
+import { getTaskLink, TaskCardAction } from '../lib/TaskCard';
+import { CreateTaskAction, createTaskModal, getCreateTaskState, saveCreateTaskState } from '../modals/CreateTaskModal';
+import { saveTaskModalState, taskCommentModal, taskDueDateModal } from '../modals/TaskActionModals';
+
+interface IAsanaApp extends App {
+    getLogger(): ILogger;
+    getOAuth2Service(): AsanaOAuth2Service;
+    getApiService(): AsanaApiService;
+}
+
+export class ExecuteBlockActionHandler {
+    constructor(
+        private readonly app: IAsanaApp,
+        private readonly read: IRead,
+        private readonly http: IHttp,
+        private readonly persis: IPersistence,
+        private readonly modify: IModify,
+    ) {}
+
+    public async run(context: UIKitBlockInteractionContext): Promise<IUIKitResponse> {
+        const { actionId } = context.getInteractionData();
+
+        try {
+            switch (actionId) {
+                case CreateTaskAction.Workspace:
+                case CreateTaskAction.Project:
+                    return await this.refreshCreateTaskModal(context);
+                case TaskCardAction.Complete:
+                case TaskCardAction.AssignToMe:
+                case TaskCardAction.Comment:
+                case TaskCardAction.ChangeDueDate:
+                case TaskCardAction.CompleteSubtask:
+                    return await this.handleTaskCardAction(context);
+                default:
+                    return context.getInteractionResponder().successResponse();
+            }
+        } catch (error) {
+            this.app.getLogger().error(`Block action ${actionId} error:`, error);
+            const { user, room } = context.getInteractionData();
+            if (room) {
+                await this.notify(user, room, `Error: ${error.message}`);
+            }
+            return context.getInteractionResponder().errorResponse();
+        }
+    }
+
+    /**
+     * reload the project and section pickers after the workspace or project selection changed
+     */
+    private async refreshCreateTaskModal(context: UIKitBlockInteractionContext): Promise<IUIKitResponse> {
+        const { actionId, user, value } = context.getInteractionData();
+        const responder = context.getInteractionResponder();
+
+        const state = await getCreateTaskState(this.read, user.id);
+        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(user, this.read, this.persis);
+        if (!state || !tokenInfo) {
+            return responder.errorResponse();
+        }
+
+        if (actionId === CreateTaskAction.Workspace) {
+            state.workspaceId = value;
+            state.projectId = undefined;
+        } else {
+            state.projectId = value;
+        }
+        await saveCreateTaskState(this.persis, user.id, state);
+
+        const modal = await createTaskModal(this.app.getApiService(), state, tokenInfo.access_token, this.modify, this.http);
+        return responder.updateModalViewResponse(modal);
+    }
+
+    /**
+     * run a task card button with the clicking user's own Asana token
+     */
+    private async handleTaskCardAction(context: UIKitBlockInteractionContext): Promise<IUIKitResponse> {
+        const { actionId, user, room, value: taskId } = context.getInteractionData();
+        const responder = context.getInteractionResponder();
+
+        if (!taskId || !room) {
+            return responder.errorResponse();
+        }
+
+        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(user, this.read, this.persis);
+        if (!tokenInfo) {
+            await this.notify(user, room, 'You have not linked your Asana account yet. Please run `/asana auth` command first.');
+            return responder.successResponse();
+        }
+
+        const apiService = this.app.getApiService();
+        switch (actionId) {
+            case TaskCardAction.Complete: {
+                const task = await apiService.setTaskCompleted(tokenInfo.access_token, taskId, true, this.http);
+                await this.notify(user, room, `✅ [${task.name}](${getTaskLink(task)}) marked as complete.`);
+                return responder.successResponse();
+            }
+            case TaskCardAction.CompleteSubtask: {
+                const subtask = await apiService.setTaskCompleted(tokenInfo.access_token, taskId, true, this.http);
+                await this.notify(user, room, `☑️ Subtask [${subtask.name}](${getTaskLink(subtask)}) checked off.`);
+                return responder.successResponse();
+            }
+            case TaskCardAction.AssignToMe: {
+                const task = await apiService.assignTask(tokenInfo.access_token, taskId, 'me', this.http);
+                await this.notify(user, room, `👤 [${task.name}](${getTaskLink(task)}) is now assigned to you.`);
+                return responder.successResponse();
+            }
+            default: {
+                const task = await apiService.getTaskById(tokenInfo.access_token, taskId, this.http);
+
+                await saveTaskModalState(this.persis, user.id, { taskId, roomId: room.id });
+                const modal = actionId === TaskCardAction.Comment
+                    ? taskCommentModal(this.modify, task.name)
+                    : taskDueDateModal(this.modify, task.name, task.due_on);
+                return responder.openModalViewResponse(modal);
+            }
+        }
+    }
+
+    private async notify(user: IUser, room: IRoom, text: string): Promise<void> {
+        const notifier = this.modify.getNotifier();
+        const appUser = await this.read.getUserReader().getAppUser();
+        const messageBuilder = notifier.getMessageBuilder()
+            .setRoom(room)
+            .setSender(appUser || user)
+            .setText(text);
+
+        await notifier.notifyUser(user, messageBuilder.getMessage());
+    }
+}
@@ -0,0 +1,265 @@
+import { IHttp, ILogger, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { App } from '@rocket.chat/apps-engine/definition/App';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import { IUIKitResponse, UIKitViewSubmitInteractionContext } from '@rocket.chat/apps-engine/definition/uikit';
+import { IUser } from '@rocket.chat/apps-engine/definition/users';
+import { AsanaApiService } from '../lib/AsanaApiService';
+import { AsanaOAuth2Service } from '../lib/AsanaOAuth2Service';
+import { parseDueDate } from '../lib/DateUtils';
+import { markdownToAsanaHtml } from '../lib/MarkdownConverter';
+import { attachMessageFile } from '../lib/TaskAttachments';
+import { buildTaskCard, getTaskLink, parseTaskReference, sendTaskCard } from '../lib/TaskCard';
+import { ATTACH_FILE_MODAL_ID, AttachFileAction, clearAttachFileState, getAttachFileState } from '../modals/AttachFileModal';
+import { clearCreateTaskState, CREATE_TASK_MODAL_ID, CreateTaskAction, getCreateTaskState } from '../modals/CreateTaskModal';
+import {
+    clearTaskModalState,
+    getTaskModalState,
+    TASK_COMMENT_MODAL_ID,
+    TASK_DUE_DATE_MODAL_ID,
+    TaskModalAction,
+} from '../modals/TaskActionModals';
+
+interface IAsanaApp extends App {
+    getLogger(): ILogger;
+    getOAuth2Service(): AsanaOAuth2Service;
+    getApiService(): AsanaApiService;
+}
+
+export class ExecuteViewSubmitHandler {
+    constructor(
+        private readonly app: IAsanaApp,
+        private readonly read: IRead,
+        private readonly http: IHttp,
+        private readonly persis: IPersistence,
+        private readonly modify: IModify,
+    ) {}
+
+    public async run(context: UIKitViewSubmitInteractionContext): Promise<IUIKitResponse> {
+        const { view } = context.getInteractionData();
+
+        try {
+            switch (view.id) {
+                case CREATE_TASK_MODAL_ID:
+                    return await this.submitCreateTask(context);
+                case TASK_COMMENT_MODAL_ID:
+                case TASK_DUE_DATE_MODAL_ID:
+                    return await this.submitTaskAction(context);
+                case ATTACH_FILE_MODAL_ID:
+                    return await this.submitAttachFile(context);
+                default:
+                    return context.getInteractionResponder().successResponse();
+            }
+        } catch (error) {
+            this.app.getLogger().error('View submit error:', error);
+            // report the error on the first input of the modal
+            const [firstBlock] = view.blocks as Array<{ blockId?: string }>;
+            return context.getInteractionResponder().viewErrorResponse({
+                viewId: view.id,
+                errors: { [firstBlock && firstBlock.blockId ? firstBlock.blockId : CreateTaskAction.Name]: `Error: ${error.message}` },
+            });
+        }
+    }
+
+    private async submitCreateTask(context: UIKitViewSubmitInteractionContext): Promise<IUIKitResponse> {
+        const { user, view } = context.getInteractionData();
+        const responder = context.getInteractionResponder();
+        const values = this.getViewValues(view.state);
+
+        const modalState = await getCreateTaskState(this.read, user.id);
+        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(user, this.read, this.persis);
+        if (!tokenInfo) {
+            return responder.viewErrorResponse({
+                viewId: view.id,
+                errors: { [CreateTaskAction.Name]: 'You have not authorized Asana yet. Please run `/asana auth` command first.' },
+            });
+        }
+
+        const name = (values[CreateTaskAction.Name] || '').trim();
+        if (!name) {
+            return responder.viewErrorResponse({
+                viewId: view.id,
+                errors: { [CreateTaskAction.Name]: 'Task name is required' },
+            });
+        }
+
+        const dueInput = (values[CreateTaskAction.DueOn] || '').trim();
+        const dueOn = dueInput ? parseDueDate(dueInput) : null;
+        if (dueOn === undefined) {
+            return responder.viewErrorResponse({
+                viewId: view.id,
+                errors: { [CreateTaskAction.DueOn]: 'Due date must be YYYY-MM-DD, today, tomorrow or +Nd' },
+            });
+        }
+
+        const workspaceId = values[CreateTaskAction.Workspace] || modalState?.workspaceId;
+        if (!workspaceId) {
+            return responder.viewErrorResponse({
+                viewId: view.id,
+                errors: { [CreateTaskAction.Workspace]: 'Please select a workspace' },
+            });
+        }
+
+        const task = await this.app.getApiService().createTask(tokenInfo.access_token, {
+            name,
+            workspaceId,
+            projectId: values[CreateTaskAction.Project] || modalState?.projectId,
+            sectionId: values[CreateTaskAction.Section],
+            assigneeId: values[CreateTaskAction.Assignee],
+            dueOn: dueOn || undefined,
+            notes: values[CreateTaskAction.Notes],
+        }, this.http);
+
+        this.app.getLogger().debug(`Task ${task.gid} created by ${user.username}`);
+
+        if (modalState) {
+            const room = await this.read.getRoomReader().getById(modalState.roomId);
+            if (room) {
+                await sendTaskCard(
+                    this.read,
+                    this.modify,
+                    room,
+                    '📋 Asana Task created',
+                    buildTaskCard(task, `🆕 @${user.username} created a new task`),
+                    modalState.threadId,
+                );
+            }
+            await clearCreateTaskState(this.persis, user.id);
+        }
+
+        return responder.successResponse();
+    }
+
+    /**
+     * submit the comment or due date modal opened from a task card button
+     */
+    private async submitTaskAction(context: UIKitViewSubmitInteractionContext): Promise<IUIKitResponse> {
+        const { user, view } = context.getInteractionData();
+        const responder = context.getInteractionResponder();
+        const values = this.getViewValues(view.state);
+        const inputId = view.id === TASK_COMMENT_MODAL_ID ? TaskModalAction.CommentText : TaskModalAction.DueOn;
+
+        const modalState = await getTaskModalState(this.read, user.id);
+        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(user, this.read, this.persis);
+        if (!modalState || !tokenInfo) {
+            return responder.viewErrorResponse({
+                viewId: view.id,
+                errors: { [inputId]: 'You have not linked your Asana account yet. Please run `/asana auth` command first.' },
+            });
+        }
+
+        const input = (values[inputId] || '').trim();
+        const apiService = this.app.getApiService();
+        let confirmation: string;
+
+        if (view.id === TASK_COMMENT_MODAL_ID) {
+            if (!input) {
+                return responder.viewErrorResponse({
+                    viewId: view.id,
+                    errors: { [inputId]: 'Comment text is required' },
+                });
+            }
+
+            const story = await apiService.addComment(tokenInfo.access_token, modalState.taskId, markdownToAsanaHtml(input), this.http);
+            const task = story.target || { gid: modalState.taskId };
+            confirmation = `💬 Comment added to task [${task.name || modalState.taskId}](${getTaskLink(task)})`;
+        } else {
+            const dueOn = parseDueDate(input || 'none');
+            if (dueOn === undefined) {
+                return responder.viewErrorResponse({
+                    viewId: view.id,
+                    errors: { [inputId]: 'Due date must be YYYY-MM-DD, today, tomorrow, +Nd or none' },
+                });
+            }
+
+            const task = await apiService.setTaskDueDate(tokenInfo.access_token, modalState.taskId, dueOn, this.http);
+            confirmation = dueOn
+                ? `📅 Due date of [${task.name}](${getTaskLink(task)}) set to ${dueOn}.`
+                : `📅 Due date of [${task.name}](${getTaskLink(task)}) removed.`;
+        }
+
+        await clearTaskModalState(this.persis, user.id);
+
+        const room = modalState.roomId ? await this.read.getRoomReader().getById(modalState.roomId) : undefined;
+        if (room) {
+            await this.notify(user, room, confirmation);
+        }
+
+        return responder.successResponse();
+    }
+
+    /**
+     * upload the file of the message the modal was opened from to the chosen task
+     */
+    private async submitAttachFile(context: UIKitViewSubmitInteractionContext): Promise<IUIKitResponse> {
+        const { user, view } = context.getInteractionData();
+        const responder = context.getInteractionResponder();
+        const values = this.getViewValues(view.state);
+
+        const modalState = await getAttachFileState(this.read, user.id);
+        const tokenInfo = await this.app.getOAuth2Service().getAccessTokenForUser(user, this.read, this.persis);
+        if (!modalState || !tokenInfo) {
+            return responder.viewErrorResponse({
+                viewId: view.id,
+                errors: { [AttachFileAction.Task]: 'You have not linked your Asana account yet. Please run `/asana auth` command first.' },
+            });
+        }
+
+        const taskId = parseTaskReference(values[AttachFileAction.Task] || '');
+        if (!taskId) {
+            return responder.viewErrorResponse({
+                viewId: view.id,
+                errors: { [AttachFileAction.Task]: 'Please enter a task ID or a link to the task' },
+            });
+        }
+
+        const room = await this.read.getRoomReader().getById(modalState.roomId);
+        if (!room) {
+            return responder.errorResponse();
+        }
+
+        const attachment = await attachMessageFile(
+            this.app.getApiService(),
+            tokenInfo.access_token,
+            this.read,
+            room,
+            { id: modalState.messageId, file: modalState.file },
+            taskId,
+            this.http,
+        );
+        await clearAttachFileState(this.persis, user.id);
+
+        const task = attachment.parent || { gid: taskId };
+        await this.notify(user, room, `📎 **${attachment.name}** attached to task [${task.name || taskId}](${getTaskLink(task)})`);
+
+        return responder.successResponse();
+    }
+
+    /**
+     * flatten view state into a map of action ID to value, block IDs equal action IDs in this app
+     */
+    private getViewValues(state?: object): { [actionId: string]: string | undefined } {
+        const values: { [actionId: string]: string | undefined } = {};
+        if (!state) {
+            return values;
+        }
+
+        Object.values(state).forEach((block: { [actionId: string]: any }) => {
+            Object.entries(block).forEach(([actionId, value]) => {
+                values[actionId] = value;
+            });
+        });
+
+        return values;
+    }
+
+    private async notify(user: IUser, room: IRoom, text: string): Promise<void> {
+        const notifier = this.modify.getNotifier();
+        const appUser = await this.read.getUserReader().getAppUser();
+        const messageBuilder = notifier.getMessageBuilder()
+            .setRoom(room)
+            .setSender(appUser || user)
+            .setText(text);
+
+        await notifier.notifyUser(user, messageBuilder.getMessage());
+    }
+}
@@ -1,206 +1,598 @@
-import { IHttp, ILogger } from '@rocket.chat/apps-engine/definition/accessors';
+import { IHttp, IHttpResponse, ILogger } from '@rocket.chat/apps-engine/definition/accessors';
 import { ApiVisibility, ApiSecurity } from '@rocket.chat/apps-engine/definition/api';
 import { HttpStatusCode } from '@rocket.chat/apps-engine/definition/accessors';
+import { AsanaApiError, AsanaErrorKind, createAsanaError, createAsanaErrorForStatus, isAsanaError } from './AsanaErrors';
+import { AsanaHttpClient } from './AsanaHttpClient';
+import {
+    IAsanaAttachment,
+    IAsanaProject,
+    IAsanaSection,
+    IAsanaStory,
+    IAsanaTag,
+    IAsanaTask,
+    IAsanaUser,
+    IAsanaWebhook,
+    IAsanaWorkspace,
+} from './AsanaModels';
+import { AsanaOAuth2Service } from './AsanaOAuth2Service';
+import { buildMultipartForm, createMultipartRequest, IMultipartFile } from './MultipartForm';
 
 interface IAsanaApp {
     getLogger(): ILogger;
+    getOAuth2Service(): AsanaOAuth2Service;
 }
 
+/**
+ * Fields accepted when creating a task
+ */
+export interface ICreateTaskData {
+    name: string;
+    workspaceId: string;
+    projectId?: string;
+    sectionId?: string;
+    assigneeId?: string;
+    dueOn?: string;
+    notes?: string;
+}
+
+/**
+ * Fields accepted when updating a task, null clears the field
+ */
+export interface IUpdateTaskData {
+    name?: string;
+    completed?: boolean;
+    dueOn?: string | null;
+    assigneeId?: string | null;
+}
+
+/**
+ * Filters for a workspace task search
+ */
+export interface ISearchTasksOptions {
+    text: string;
+    projectId?: string;
+    // "me" or a user gid
+    assignee?: string;
+    completed?: boolean;
+}
+
+/**
+ * Tasks found by a workspace task search
+ */
+export interface ISearchTasksResult {
+    data: Array<IAsanaTask>;
+    // Asana had more matches than it returns for one search
+    truncated: boolean;
+}
+
+/**
+ * Items loaded from a paginated list endpoint
+ */
+export interface IPagedResult<T = any> {
+    data: Array<T>;
+    // set when loading stopped before the end of the list
+    nextOffset?: string;
+}
+
+/**
+ * One request inside a call to the batch API
+ */
+export interface IBatchAction {
+    method: 'get' | 'post' | 'put' | 'delete';
+    // path below the API root, e.g. /tasks/1234
+    relative_path: string;
+    data?: { [key: string]: any };
+    options?: { fields?: Array<string>; limit?: number; offset?: string };
+}
+
+/**
+ * Outcome of one batch action, either data or error is set
+ */
+export interface IBatchResult<T = any> {
+    data?: T;
+    error?: AsanaApiError;
+}
+
+// the largest page Asana returns
+const PAGE_SIZE = 100;
+
+// the most actions Asana accepts in one batch request
+const MAX_BATCH_ACTIONS = 10;
+
+// everything needed to render the custom field values of a task
+const CUSTOM_FIELD_FIELDS = [
+    'name', 'resource_subtype', 'display_value', 'enum_value.name', 'multi_enum_values.name', 'number_value',
+    'precision', 'format', 'currency_code', 'text_value', 'date_value', 'people_value.name',
+].map((field) => `custom_fields.${field}`).join(',');
+
+const TASK_FIELDS = 'name,completed,due_on,assignee,assignee.name,projects,notes,html_notes,workspace,'
+    + 'memberships,memberships.project.name,memberships.section.name,parent,parent.name,tags.name,num_subtasks,'
+    + CUSTOM_FIELD_FIELDS;
+
+// the most results task search and typeahead return, neither can be paged
+export const SEARCH_LIMIT = 100;
+
+// open tasks loaded per section for the board view
+export const SECTION_TASK_LIMIT = 100;
+
+// default cap on the number of items loaded by a list call
+export const DEFAULT_MAX_ITEMS = 1000;
+
 export class AsanaApiService {
     private readonly baseUrl = 'https://app.asana.com/api/1.0';
     private readonly logger: ILogger;
+    private readonly client: AsanaHttpClient;
 
     constructor(private readonly app: IAsanaApp) {
         this.logger = this.app.getLogger();
+        this.client = new AsanaHttpClient(this.logger, (accessToken) => this.app.getOAuth2Service().refreshAccessToken(accessToken));
     }
 
     /**
      * Get current user information
      */
-    public async getUser(accessToken: string, http: IHttp): Promise<any> {
-        try {
-            const response = await http.get(`${this.baseUrl}/users/me`, {
-                headers: this.getAuthHeaders(accessToken),
-            });
+    public async getUser(accessToken: string, http: IHttp): Promise<IAsanaUser> {
+        const response = await this.client.get(accessToken, `${this.baseUrl}/users/me`, {
+            headers: this.getAuthHeaders(accessToken),
+        }, http);
 
-            if (response.statusCode === 200 && response.data) {
-                return response.data.data;
-            } else {
-                this.logger.error('Failed to get user:', response.content);
-                return null;
-            }
-        } catch (error) {
-            this.logger.error('Error getting user:', error);
-            return null;
-        }
+        return this.getData<IAsanaUser>(response, HttpStatusCode.OK, 'your Asana user');
     }
 
     /**
-     * Get user's tasks
+     * Get user's tasks in a workspace
+     * @param maxItems Stop after this many tasks, the result then has a nextOffset
      */
-    public async getUserTasks(accessToken: string, http: IHttp): Promise<any[]> {
-        try {
-            // First get user's workspaces
-            const workspacesResponse = await http.get(`${this.baseUrl}/workspaces`, {
-                headers: this.getAuthHeaders(accessToken),
-            });
+    public async getUserTasks(accessToken: string, workspaceId: string, http: IHttp, maxItems: number = DEFAULT_MAX_ITEMS): Promise<IPagedResult<IAsanaTask>> {
+        // Get tasks assigned to the user in the workspace
+        return this.getPaged(accessToken, '/tasks', {
+            assignee: 'me',
+            workspace: workspaceId,
+            opt_fields: 'name,completed,due_on,projects,projects.name,assignee,notes,created_at,modified_at,html_notes,' + CUSTOM_FIELD_FIELDS,
+        }, http, maxItems, 'your tasks');
+    }
 
-            if (workspacesResponse.statusCode !== 200 || !workspacesResponse.data) {
-                this.logger.error('Failed to get workspaces:', workspacesResponse.content);
-                return [];
-            }
+    /**
+     * Get user's projects in a workspace
+     * @param maxItems Stop after this many projects, the result then has a nextOffset
+     */
+    public async getUserProjects(
+        accessToken: string,
+        workspaceId: string,
+        http: IHttp,
+        maxItems: number = DEFAULT_MAX_ITEMS,
+    ): Promise<IPagedResult<IAsanaProject>> {
+        return this.getPaged(accessToken, '/projects', {
+            workspace: workspaceId,
+            opt_fields: 'name,owner,notes,public',
+        }, http, maxItems, `the projects of workspace ${workspaceId}`);
+    }
 
-            const workspaces = workspacesResponse.data.data;
-            if (!workspaces || workspaces.length === 0) {
-                this.logger.error('No workspaces found');
-                return [];
-            }
+    /**
+     * Get specific task details
+     */
+    public async getTaskById(accessToken: string, taskId: string, http: IHttp): Promise<IAsanaTask> {
+        if (!taskId) {
+            throw new Error('Task ID is required');
+        }
 
-            // Use the first workspace
-            const workspaceId = workspaces[0].gid;
-            this.logger.debug(`Using workspace: ${workspaces[0].name} (ID: ${workspaceId})`);
-
-            // Get tasks assigned to the user in the workspace
-            const response = await http.get(`${this.baseUrl}/tasks`, {
-                headers: this.getAuthHeaders(accessToken),
-                params: {
-                    assignee: 'me',
-                    workspace: workspaceId,
-                    opt_fields: 'name,completed,due_on,projects,projects.name,assignee,notes,created_at,modified_at,custom_fields,html_notes',
-                    limit: '100',
-                },
-            });
+        const response = await this.client.get(accessToken, `${this.baseUrl}/tasks/${taskId}`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: TASK_FIELDS,
+            },
+        }, http);
 
-            if (response.statusCode === 200 && response.data) {
-                return response.data.data;
-            } else {
-                this.logger.error('Failed to get tasks:', response.content);
-                return [];
-            }
-        } catch (error) {
-            this.logger.error('Error getting tasks:', error);
-            return [];
+        return this.getData<IAsanaTask>(response, HttpStatusCode.OK, `task ${taskId}`);
+    }
+
+    /**
+     * Get several tasks with the batch API, ten per request
+     * @returns One result per task ID in the same order, a task that could not be loaded has an error instead of data
+     */
+    public async getTasksByIds(accessToken: string, taskIds: Array<string>, http: IHttp): Promise<Array<IBatchResult<IAsanaTask>>> {
+        const actions: Array<IBatchAction> = taskIds.map((taskId) => ({
+            method: 'get' as 'get',
+            relative_path: `/tasks/${taskId}`,
+            options: { fields: TASK_FIELDS.split(',') },
+        }));
+
+        return this.batch<IAsanaTask>(accessToken, actions, http, (index) => `task ${taskIds[index]}`);
+    }
+
+    /**
+     * Get the subtasks of a task, completed ones included
+     * @param maxItems Stop after this many subtasks, the result then has a nextOffset
+     */
+    public async getSubtasks(accessToken: string, taskId: string, http: IHttp, maxItems: number = DEFAULT_MAX_ITEMS): Promise<IPagedResult<IAsanaTask>> {
+        return this.getPaged(accessToken, `/tasks/${taskId}/subtasks`, {
+            opt_fields: 'name,completed,due_on,assignee.name',
+        }, http, maxItems, `the subtasks of task ${taskId}`);
+    }
+
+    /**
+     * Create a subtask below a task
+     */
+    public async createSubtask(accessToken: string, parentId: string, name: string, http: IHttp): Promise<IAsanaTask> {
+        if (!parentId || !name) {
+            throw new Error('Parent task ID and subtask name are required');
         }
+
+        const response = await this.client.post(accessToken, `${this.baseUrl}/tasks/${parentId}/subtasks`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'name,completed,parent.name,permalink_url',
+            },
+            data: { data: { name } },
+        }, http);
+
+        return this.getData<IAsanaTask>(response, HttpStatusCode.CREATED, `task ${parentId}`);
     }
 
     /**
-     * Get user's projects
+     * Get tasks of a project
+     * @param maxItems Stop after this many tasks, the result then has a nextOffset
      */
-    public async getUserProjects(accessToken: string, http: IHttp): Promise<any[]> {
-        try {
-            // First get user's workspaces
-            const workspacesResponse = await http.get(`${this.baseUrl}/workspaces`, {
-                headers: this.getAuthHeaders(accessToken),
-            });
+    public async getProjectTasks(accessToken: string, projectId: string, http: IHttp, maxItems: number = DEFAULT_MAX_ITEMS): Promise<IPagedResult<IAsanaTask>> {
+        return this.getPaged(accessToken, `/projects/${projectId}/tasks`, {
+            opt_fields: 'name,completed,due_on,assignee',
+        }, http, maxItems, `the tasks of project ${projectId}`);
+    }
 
-            if (workspacesResponse.statusCode !== 200 || !workspacesResponse.data) {
-                this.logger.error('Failed to get workspaces:', workspacesResponse.content);
-                return [];
-            }
+    /**
+     * Create a task
+     */
+    public async createTask(accessToken: string, task: ICreateTaskData, http: IHttp): Promise<IAsanaTask> {
+        if (!task.name || !task.workspaceId) {
+            throw new Error('Task name and workspace are required');
+        }
 
-            const workspaces = workspacesResponse.data.data;
-            if (!workspaces || workspaces.length === 0) {
-                this.logger.error('No workspaces found');
-                return [];
-            }
+        const data: { [key: string]: any } = {
+            name: task.name,
+            workspace: task.workspaceId,
+        };
 
-            // Use the first workspace
-            const workspaceId = workspaces[0].gid;
-            this.logger.debug(`Using workspace for projects: ${workspaces[0].name} (ID: ${workspaceId})`);
-
-            // Get projects in the workspace
-            const response = await http.get(`${this.baseUrl}/projects`, {
-                headers: this.getAuthHeaders(accessToken),
-                params: {
-                    workspace: workspaceId,
-                    opt_fields: 'name,owner,notes',
-                    limit: '100',
-                },
-            });
+        // a section membership already implies the project
+        if (task.projectId && task.sectionId) {
+            data.memberships = [{ project: task.projectId, section: task.sectionId }];
+        } else if (task.projectId) {
+            data.projects = [task.projectId];
+        }
 
-            if (response.statusCode === 200 && response.data) {
-                return response.data.data;
-            } else {
-                this.logger.error('Failed to get projects:', response.content);
-                return [];
-            }
-        } catch (error) {
-            this.logger.error('Error getting projects:', error);
-            return [];
+        if (task.assigneeId) {
+            data.assignee = task.assigneeId;
+        }
+
+        if (task.dueOn) {
+            data.due_on = task.dueOn;
         }
+
+        if (task.notes) {
+            data.notes = task.notes;
+        }
+
+        const response = await this.client.post(accessToken, `${this.baseUrl}/tasks`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'name,completed,due_on,assignee.name,projects.name,notes,permalink_url,memberships.section.name',
+            },
+            data: { data },
+        }, http);
+
+        return this.getData<IAsanaTask>(response, HttpStatusCode.CREATED, 'the new task');
     }
 
     /**
-     * Get specific task details
+     * Update a task
      */
-    public async getTaskById(accessToken: string, taskId: string, http: IHttp): Promise<any> {
-        if (!accessToken || !taskId) {
-            this.logger.debug('getTaskById: missing access token or task ID');
-            return null;
+    public async updateTask(accessToken: string, taskId: string, changes: IUpdateTaskData, http: IHttp): Promise<IAsanaTask> {
+        if (!taskId) {
+            throw new Error('Task ID is required');
         }
 
-        try {
-            const response = await http.get(`${this.baseUrl}/tasks/${taskId}`, {
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Accept': 'application/json',
-                },
-                params: {
-                    opt_fields: 'name,completed,due_on,assignee,projects,notes,html_notes,workspace,memberships,parent,tags'
-                }
-            });
-
-            if (response.statusCode === HttpStatusCode.OK && response.data && response.data.data) {
-                if (response.data.data.projects) {
-                    response.data.data.projects.forEach((project: any) => {
-                        this.logger.debug(`Project: ${project.name}, Project ID: ${project.gid}`);
-                    });
-                }
-                return response.data.data;
-            } else {
-                this.logger.error(`getTaskById failed: ${response.statusCode}`);
-                return null;
-            }
-        } catch (error) {
-            this.logger.error(`getTaskById failed: ${error}`);
-            return null;
+        const data: { [key: string]: any } = {};
+        if (changes.name !== undefined) {
+            data.name = changes.name;
+        }
+        if (changes.completed !== undefined) {
+            data.completed = changes.completed;
         }
+        if (changes.dueOn !== undefined) {
+            data.due_on = changes.dueOn;
+        }
+        if (changes.assigneeId !== undefined) {
+            data.assignee = changes.assigneeId;
+        }
+
+        const response = await this.client.put(accessToken, `${this.baseUrl}/tasks/${taskId}`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'name,completed,due_on,assignee.name,projects.name,notes,permalink_url,memberships.section.name',
+            },
+            data: { data },
+        }, http);
+
+        return this.getData<IAsanaTask>(response, HttpStatusCode.OK, `task ${taskId}`);
     }
 
     /**
-     * Get project tasks
+     * Mark a task as completed or not completed
      */
-    public async getProjectTasks(accessToken: string, projectId: string, http: IHttp): Promise<any[]> {
-        try {
-            const response = await http.get(`${this.baseUrl}/projects/${projectId}/tasks`, {
-                headers: this.getAuthHeaders(accessToken),
-                params: {
-                    opt_fields: 'name,completed,due_on,assignee',
-                    limit: '100',
-                },
-            });
+    public async setTaskCompleted(accessToken: string, taskId: string, completed: boolean, http: IHttp): Promise<IAsanaTask> {
+        return this.updateTask(accessToken, taskId, { completed }, http);
+    }
 
-            if (response.statusCode === 200 && response.data) {
-                return response.data.data;
-            } else {
-                this.logger.error(`Failed to get tasks for project ${projectId}:`, response.content);
-                return [];
-            }
-        } catch (error) {
-            this.logger.error(`Error getting tasks for project ${projectId}:`, error);
-            return [];
+    /**
+     * Rename a task
+     */
+    public async renameTask(accessToken: string, taskId: string, name: string, http: IHttp): Promise<IAsanaTask> {
+        return this.updateTask(accessToken, taskId, { name }, http);
+    }
+
+    /**
+     * Set or clear the due date of a task
+     */
+    public async setTaskDueDate(accessToken: string, taskId: string, dueOn: string | null, http: IHttp): Promise<IAsanaTask> {
+        return this.updateTask(accessToken, taskId, { dueOn }, http);
+    }
+
+    /**
+     * Assign a task to a user ("me", email or gid), null unassigns it
+     */
+    public async assignTask(accessToken: string, taskId: string, assigneeId: string | null, http: IHttp): Promise<IAsanaTask> {
+        return this.updateTask(accessToken, taskId, { assigneeId }, http);
+    }
+
+    /**
+     * Get a story, webhook events only carry its gid
+     */
+    public async getStory(accessToken: string, storyId: string, http: IHttp): Promise<IAsanaStory> {
+        const response = await this.client.get(accessToken, `${this.baseUrl}/stories/${storyId}`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'text,resource_subtype,created_by.name',
+            },
+        }, http);
+
+        return this.getData<IAsanaStory>(response, HttpStatusCode.OK, `story ${storyId}`);
+    }
+
+    /**
+     * Add a comment (story) to a task
+     * @param htmlText Comment body in Asana's html_text format, wrapped in <body>
+     */
+    public async addComment(accessToken: string, taskId: string, htmlText: string, http: IHttp): Promise<IAsanaStory> {
+        if (!taskId || !htmlText) {
+            throw new Error('Task ID and comment text are required');
         }
+
+        const response = await this.client.post(accessToken, `${this.baseUrl}/tasks/${taskId}/stories`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'text,created_by.name,target.name,target.permalink_url',
+            },
+            data: {
+                data: {
+                    html_text: htmlText,
+                },
+            },
+        }, http);
+
+        return this.getData<IAsanaStory>(response, HttpStatusCode.CREATED, `task ${taskId}`);
     }
 
     /**
-     * Create Webhook
+     * Upload a file to a task as an attachment
      */
-    public async createWebhook(accessToken: string, resourceId: string, target: string, http: IHttp): Promise<any> {
-        if (!accessToken) {
-            this.logger.error('No access token provided for createWebhook');
-            throw new Error('Authentication required: No access token provided');
+    public async uploadAttachment(accessToken: string, taskId: string, file: IMultipartFile, http: IHttp): Promise<IAsanaAttachment> {
+        const form = buildMultipartForm({ parent: taskId }, 'file', file);
+
+        const response = await this.client.post(accessToken, `${this.baseUrl}/attachments`, createMultipartRequest(form, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'name,parent.name,permalink_url,view_url',
+            },
+        }), http);
+
+        return this.getData<IAsanaAttachment>(response, HttpStatusCode.OK, `task ${taskId}`);
+    }
+
+    /**
+     * Search tasks in a workspace.
+     * Uses the full-text search API, and falls back to typeahead on workspaces without Asana premium
+     */
+    public async searchTasks(accessToken: string, workspaceId: string, options: ISearchTasksOptions, http: IHttp): Promise<ISearchTasksResult> {
+        const optFields = `name,completed,due_on,assignee.name,projects.name,notes,permalink_url,${CUSTOM_FIELD_FIELDS}`;
+        const completed = !!options.completed;
+
+        const params: { [key: string]: string } = {
+            text: options.text,
+            completed: String(completed),
+            sort_by: 'modified_at',
+            opt_fields: optFields,
+            limit: String(SEARCH_LIMIT),
+        };
+        if (options.projectId) {
+            params['projects.any'] = options.projectId;
+        }
+        if (options.assignee) {
+            params['assignee.any'] = options.assignee;
+        }
+
+        const response = await this.client.get(accessToken, `${this.baseUrl}/workspaces/${workspaceId}/tasks/search`, {
+            headers: this.getAuthHeaders(accessToken),
+            params,
+        }, http);
+
+        if (response.statusCode !== HttpStatusCode.PAYMENT_REQUIRED) {
+            const tasks = this.getData<Array<IAsanaTask>>(response, HttpStatusCode.OK, `the tasks of workspace ${workspaceId}`);
+            return { data: tasks, truncated: tasks.length >= SEARCH_LIMIT };
+        }
+
+        this.logger.debug(`Task search is not available in workspace ${workspaceId}, falling back to typeahead`);
+
+        const typeaheadResults = await this.typeahead<IAsanaTask>(accessToken, workspaceId, 'task', options.text, http, optFields, SEARCH_LIMIT);
+
+        // typeahead has no filters, so apply them here
+        let assigneeId = options.assignee;
+        if (assigneeId === 'me') {
+            const me = await this.getUser(accessToken, http);
+            assigneeId = me.gid;
         }
 
+        const matches = typeaheadResults.filter((task) =>
+            !!task.completed === completed
+            && (!options.projectId || (task.projects || []).some((project) => project.gid === options.projectId))
+            && (!options.assignee || (task.assignee && task.assignee.gid === assigneeId)),
+        );
+        return { data: matches, truncated: typeaheadResults.length >= SEARCH_LIMIT };
+    }
+
+    /**
+     * Look up objects in a workspace by (partial) name
+     * @param resourceType "task", "project", "user", "tag" ...
+     */
+    public async typeahead<T extends { gid: string; name: string } = IAsanaTask>(
+        accessToken: string,
+        workspaceId: string,
+        resourceType: string,
+        query: string,
+        http: IHttp,
+        optFields: string = 'name',
+        count: number = 100,
+    ): Promise<Array<T>> {
+        const response = await this.client.get(accessToken, `${this.baseUrl}/workspaces/${workspaceId}/typeahead`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                resource_type: resourceType,
+                query,
+                count: String(count),
+                opt_fields: optFields,
+            },
+        }, http);
+
+        return this.getData<Array<T>>(response, HttpStatusCode.OK, `workspace ${workspaceId}`);
+    }
+
+    /**
+     * Get projects in a workspace
+     */
+    public async getWorkspaceProjects(
+        accessToken: string,
+        workspaceId: string,
+        http: IHttp,
+        maxItems: number = DEFAULT_MAX_ITEMS,
+    ): Promise<Array<IAsanaProject>> {
+        const result = await this.getPaged<IAsanaProject>(accessToken, '/projects', {
+            workspace: workspaceId,
+            archived: 'false',
+            opt_fields: 'name',
+        }, http, maxItems, `the projects of workspace ${workspaceId}`);
+        return result.data;
+    }
+
+    /**
+     * Get sections of a project
+     */
+    public async getProjectSections(accessToken: string, projectId: string, http: IHttp, maxItems: number = DEFAULT_MAX_ITEMS): Promise<Array<IAsanaSection>> {
+        const result = await this.getPaged<IAsanaSection>(accessToken, `/projects/${projectId}/sections`, {
+            opt_fields: 'name',
+        }, http, maxItems, `the sections of project ${projectId}`);
+        return result.data;
+    }
+
+    /**
+     * Get the open tasks of several sections with the batch API, at most SECTION_TASK_LIMIT per section
+     * @returns One result per section ID in the same order, a section that could not be loaded has an error instead of data
+     */
+    public async getOpenSectionTasks(accessToken: string, sectionIds: Array<string>, http: IHttp): Promise<Array<IBatchResult<Array<IAsanaTask>>>> {
+        const actions: Array<IBatchAction> = sectionIds.map((sectionId) => ({
+            method: 'get' as 'get',
+            relative_path: `/sections/${sectionId}/tasks`,
+            // query parameters of a GET action go into data, completed_since=now leaves out completed tasks
+            data: { completed_since: 'now' },
+            options: { fields: ['name', 'completed', 'due_on', 'assignee.name'], limit: SECTION_TASK_LIMIT },
+        }));
+
+        return this.batch<Array<IAsanaTask>>(accessToken, actions, http, (index) => `the tasks of section ${sectionIds[index]}`);
+    }
+
+    /**
+     * Move a task to a section, which also adds it to the section's project
+     */
+    public async moveTaskToSection(accessToken: string, taskId: string, sectionId: string, http: IHttp): Promise<void> {
+        const response = await this.client.post(accessToken, `${this.baseUrl}/sections/${sectionId}/addTask`, {
+            headers: this.getAuthHeaders(accessToken),
+            data: { data: { task: taskId } },
+        }, http);
+
+        this.getData(response, HttpStatusCode.OK, `section ${sectionId}`);
+    }
+
+    /**
+     * Get users in a workspace
+     */
+    public async getWorkspaceUsers(accessToken: string, workspaceId: string, http: IHttp, maxItems: number = DEFAULT_MAX_ITEMS): Promise<Array<IAsanaUser>> {
+        const result = await this.getPaged<IAsanaUser>(accessToken, '/users', {
+            workspace: workspaceId,
+            opt_fields: 'name,email',
+        }, http, maxItems, `the users of workspace ${workspaceId}`);
+        return result.data;
+    }
+
+    /**
+     * Get tags in a workspace
+     */
+    public async getWorkspaceTags(accessToken: string, workspaceId: string, http: IHttp, maxItems: number = DEFAULT_MAX_ITEMS): Promise<Array<IAsanaTag>> {
+        const result = await this.getPaged<IAsanaTag>(accessToken, `/workspaces/${workspaceId}/tags`, {
+            opt_fields: 'name,color',
+        }, http, maxItems, `the tags of workspace ${workspaceId}`);
+        return result.data;
+    }
+
+    /**
+     * Create a tag in a workspace
+     */
+    public async createTag(accessToken: string, workspaceId: string, name: string, http: IHttp): Promise<IAsanaTag> {
+        const response = await this.client.post(accessToken, `${this.baseUrl}/workspaces/${workspaceId}/tags`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'name,color',
+            },
+            data: { data: { name } },
+        }, http);
+
+        return this.getData<IAsanaTag>(response, HttpStatusCode.CREATED, `tag ${name}`);
+    }
+
+    /**
+     * Add a tag to a task
+     */
+    public async addTagToTask(accessToken: string, taskId: string, tagId: string, http: IHttp): Promise<void> {
+        const response = await this.client.post(accessToken, `${this.baseUrl}/tasks/${taskId}/addTag`, {
+            headers: this.getAuthHeaders(accessToken),
+            data: { data: { tag: tagId } },
+        }, http);
+
+        this.getData(response, HttpStatusCode.OK, `task ${taskId}`);
+    }
+
+    /**
+     * Remove a tag from a task
+     */
+    public async removeTagFromTask(accessToken: string, taskId: string, tagId: string, http: IHttp): Promise<void> {
+        const response = await this.client.post(accessToken, `${this.baseUrl}/tasks/${taskId}/removeTag`, {
+            headers: this.getAuthHeaders(accessToken),
+            data: { data: { tag: tagId } },
+        }, http);
+
+        this.getData(response, HttpStatusCode.OK, `task ${taskId}`);
+    }
+
+    /**
+     * Create Webhook
+     */
+    public async createWebhook(accessToken: string, resourceId: string, target: string, http: IHttp): Promise<IAsanaWebhook> {
         if (!resourceId) {
             this.logger.error('No resource ID provided for createWebhook');
             throw new Error('Resource ID is required');
@@ -211,201 +603,120 @@ export class AsanaApiService {
             throw new Error('Target URL is required');
         }
 
-        try {
-            this.logger.debug('Creating webhook with params:', {
-                resourceId,
-                target,
-                accessToken: accessToken ? '***' : 'undefined'
-            });
-
-            // Asana API request body
-            const requestBody = {
-                data: {
-                    resource: resourceId,
-                    target,
-                    filters: [
-                        {
-                            resource_type: 'task',
-                            action: 'changed',
-                        },
-                        {
-                            resource_type: 'task',
-                            action: 'added',
-                        },
-                        {
-                            resource_type: 'task',
-                            action: 'removed',
-                        },
-                        {
-                            resource_type: 'task',
-                            action: 'deleted',
-                        },
-                        {
-                            resource_type: 'task',
-                            action: 'undeleted',
-                        },
-                    ],
-                }
-            };
+        this.logger.debug('Creating webhook with params:', {
+            resourceId,
+            target,
+        });
 
-            // build request options
-            const requestOptions = {
-                headers: this.getAuthHeaders(accessToken),
-                data: requestBody,
-            };
+        // Asana API request body
+        const requestBody = {
+            data: {
+                resource: resourceId,
+                target,
+                filters: [
+                    {
+                        resource_type: 'task',
+                        action: 'changed',
+                    },
+                    {
+                        resource_type: 'task',
+                        action: 'added',
+                    },
+                    {
+                        resource_type: 'task',
+                        action: 'removed',
+                    },
+                    {
+                        resource_type: 'task',
+                        action: 'deleted',
+                    },
+                    {
+                        resource_type: 'task',
+                        action: 'undeleted',
+                    },
+                    // comments, posted as replies in the thread of their task
+                    {
+                        resource_type: 'story',
+                        action: 'added',
+                    },
+                ],
+            },
+        };
 
-            try {
-                // directly use try-catch to wrap HTTP request
-                const response = await http.post(`${this.baseUrl}/webhooks`, requestOptions);
-                
-                // try to parse response content
-                let responseData;
-                if (response.data) {
-                    responseData = response.data;
-                } else if (typeof response.content === 'string') {
-                    try {
-                        responseData = JSON.parse(response.content);
-                    } catch (parseError) {
-                        this.logger.error('Failed to parse response content:', parseError);
-                    }
-                }
+        const response = await this.client.post(accessToken, `${this.baseUrl}/webhooks`, {
+            headers: this.getAuthHeaders(accessToken),
+            data: requestBody,
+        }, http);
 
-                this.logger.debug('Parsed response data:', responseData ? JSON.stringify(responseData).substring(0, 500) : 'null');
-
-                if (response.statusCode === 201 && responseData && responseData.data) {
-                    return responseData.data;
-                } else {
-                    // try to extract error information
-                    let errorDetail = '';
-                    if (responseData && responseData.errors) {
-                        errorDetail = JSON.stringify(responseData.errors);
-                    } else {
-                        errorDetail = response.content || 'Unknown error';
-                    }
-
-                    this.logger.error('Failed to create webhook:', {
-                        statusCode: response.statusCode,
-                        errorDetail: typeof errorDetail === 'string' ? errorDetail.substring(0, 500) : JSON.stringify(errorDetail).substring(0, 500)
-                    });
-                    
-                    throw new Error(`API returned status ${response.statusCode}: ${errorDetail}`);
-                }
-            } catch (httpError) {
-                this.logger.error('HTTP request error:', httpError);
-                if (httpError.response) {
-                    this.logger.error('HTTP response details:', {
-                        status: httpError.response.status,
-                        statusText: httpError.response.statusText,
-                        data: httpError.response.data
-                    });
-                }
-                throw new Error(`HTTP request failed: ${httpError.message || 'Unknown error'}`);
-            }
-        } catch (error) {
-            this.logger.error('Error creating webhook:', error);
-            if (error instanceof Error) {
-                this.logger.error('Error details:', {
-                    message: error.message,
-                    stack: error.stack
-                });
-            } else {
-                this.logger.error('Non-Error object thrown:', JSON.stringify(error));
-            }
-            throw error;
-        }
+        return this.getData<IAsanaWebhook>(response, HttpStatusCode.CREATED, `resource ${resourceId}`);
     }
 
     /**
      * Get Webhooks
+     * @param maxItems Stop after this many webhooks, the result then has a nextOffset
      */
-    public async getWebhooks(accessToken: string, workspaceId: string, http: IHttp): Promise<any[]> {
-        try {
-            const response = await http.get(`${this.baseUrl}/webhooks`, {
-                headers: this.getAuthHeaders(accessToken),
-                params: {
-                    workspace: workspaceId,
-                    limit: '100',
-                },
-            });
+    public async getWebhooks(
+        accessToken: string,
+        workspaceId: string,
+        http: IHttp,
+        maxItems: number = DEFAULT_MAX_ITEMS,
+    ): Promise<IPagedResult<IAsanaWebhook>> {
+        return this.getPaged(accessToken, '/webhooks', {
+            workspace: workspaceId,
+        }, http, maxItems, `the webhooks of workspace ${workspaceId}`);
+    }
 
-            if (response.statusCode === 200 && response.data) {
-                return response.data.data;
-            } else {
-                this.logger.error('Failed to get webhooks:', response.content);
-                return [];
-            }
-        } catch (error) {
-            this.logger.error('Error getting webhooks:', error);
-            return [];
-        }
+    /**
+     * Get a webhook
+     */
+    public async getWebhook(accessToken: string, webhookId: string, http: IHttp): Promise<IAsanaWebhook> {
+        const response = await this.client.get(accessToken, `${this.baseUrl}/webhooks/${webhookId}`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'active,target,resource,resource.name,created_at,last_failure_at,last_failure_content',
+            },
+        }, http);
+
+        return this.getData<IAsanaWebhook>(response, HttpStatusCode.OK, `webhook ${webhookId}`);
     }
 
     /**
      * Delete Webhook
      */
-    public async deleteWebhook(accessToken: string, webhookId: string, http: IHttp): Promise<boolean> {
-        try {
-            const response = await http.del(`${this.baseUrl}/webhooks/${webhookId}`, {
-                headers: this.getAuthHeaders(accessToken),
-            });
-
-            if (response.statusCode === 200) {
-                return true;
-            } else {
-                this.logger.error(`Failed to delete webhook ${webhookId}:`, response.content);
-                return false;
-            }
-        } catch (error) {
-            this.logger.error(`Error deleting webhook ${webhookId}:`, error);
-            return false;
+    public async deleteWebhook(accessToken: string, webhookId: string, http: IHttp): Promise<void> {
+        const response = await this.client.del(accessToken, `${this.baseUrl}/webhooks/${webhookId}`, {
+            headers: this.getAuthHeaders(accessToken),
+        }, http);
+
+        if (response.statusCode !== HttpStatusCode.OK) {
+            this.logger.error(`Failed to delete webhook ${webhookId}:`, response.content);
+            throw createAsanaError(response, `webhook ${webhookId}`);
         }
     }
 
     /**
      * Get Workspaces
      */
-    public async getWorkspaces(accessToken: string, http: IHttp): Promise<any[]> {
-        try {
-            const response = await http.get(`${this.baseUrl}/workspaces`, {
-                headers: this.getAuthHeaders(accessToken),
-            });
+    public async getWorkspaces(accessToken: string, http: IHttp): Promise<Array<IAsanaWorkspace>> {
+        const response = await this.client.get(accessToken, `${this.baseUrl}/workspaces`, {
+            headers: this.getAuthHeaders(accessToken),
+        }, http);
 
-            if (response.statusCode === 200 && response.data) {
-                return response.data.data;
-            } else {
-                this.logger.error('Failed to get workspaces:', response.content);
-                return [];
-            }
-        } catch (error) {
-            this.logger.error('Error getting workspaces:', error);
-            return [];
-        }
+        return this.getData<Array<IAsanaWorkspace>>(response, HttpStatusCode.OK, 'your workspaces');
     }
 
     /**
      * Get specific project details
      */
-    public async getProjectById(accessToken: string, projectId: string, http: IHttp): Promise<any> {
-        try {
-            const response = await http.get(`${this.baseUrl}/projects/${projectId}`, {
-                headers: this.getAuthHeaders(accessToken),
-                params: {
-                    opt_fields: 'name,notes,archived,owner,workspace',
-                },
-            });
-
-            if (response.statusCode === 200 && response.data) {
-                // log project details
-                this.logger.debug(`Project details: ${JSON.stringify(response.data.data)}`);
-                return response.data.data;
-            } else {
-                this.logger.error(`Failed to get project ${projectId}:`, response.content);
-                return null;
-            }
-        } catch (error) {
-            this.logger.error(`Error getting project ${projectId}:`, error);
-            return null;
-        }
+    public async getProjectById(accessToken: string, projectId: string, http: IHttp): Promise<IAsanaProject> {
+        const response = await this.client.get(accessToken, `${this.baseUrl}/projects/${projectId}`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
+                opt_fields: 'name,notes,archived,owner,workspace',
+            },
+        }, http);
+
+        return this.getData<IAsanaProject>(response, HttpStatusCode.OK, `project ${projectId}`);
     }
 
     /**
@@ -413,55 +724,130 @@ export class AsanaApiService {
      * @param accessToken Access token for API authentication
      * @param userId User ID to look up, can be "me", email, or user gid
      * @param http HTTP service for making requests
-     * @returns User details or null if not found
+     * @param workspaceId Optional workspace the user must be a member of
+     * @returns User details or null if not found (or not in the given workspace)
      */
-    public async getUserById(accessToken: string, userId: string, http: IHttp): Promise<any> {
-        if (!accessToken) {
-            this.logger.error('getUserById: no access token provided');
-            return null;
-        }
-        
+    public async getUserById(accessToken: string, userId: string, http: IHttp, workspaceId?: string): Promise<IAsanaUser | null> {
         if (!userId) {
-            this.logger.error('getUserById: no user ID provided');
-            return null;
+            throw new Error('User ID is required');
         }
 
-        try {
-            // full request URL and detailed logs
-            const requestUrl = `${this.baseUrl}/users/${userId}`;
-            
-            const headers = {
-                'Authorization': `Bearer ${accessToken}`,
-                'Accept': 'application/json',
-                'Content-Type': 'application/json'
-            };
-            
-            const params = {
+        const response = await this.client.get(accessToken, `${this.baseUrl}/users/${userId}`, {
+            headers: this.getAuthHeaders(accessToken),
+            params: {
                 opt_fields: 'name,email,photo,workspaces'
-            };
+            }
+        }, http);
 
-            const response = await http.get(requestUrl, {
-                headers: headers,
-                params: params
-            });
-            
-            if (response.statusCode === HttpStatusCode.OK) {
-                if (response.data && response.data.data) {
-                    const userData = response.data.data;
-                    this.logger.debug(`successfully got user data: ${userData.name || 'unknown name'}, email: ${userData.email || 'no email provided'}`);
-                    return userData;
-                } else {
-                    this.logger.error(`API returned 200 status code, but no user data`);
-                    return null;
-                }
-            } else {
-                this.logger.error(`failed to get user, status code: ${response.statusCode}`);
+        let userData: IAsanaUser;
+        try {
+            userData = this.getData<IAsanaUser>(response, HttpStatusCode.OK, `user ${userId}`);
+        } catch (error) {
+            if (isAsanaError(error, AsanaErrorKind.NotFound)) {
                 return null;
             }
-        } catch (error) {
-            this.logger.error(`error getting user: ${error}`);
+            throw error;
+        }
+
+        this.logger.debug(`successfully got user data: ${userData.name || 'unknown name'}, email: ${userData.email || 'no email provided'}`);
+
+        if (workspaceId && !(userData.workspaces || []).some((workspace) => workspace.gid === workspaceId)) {
+            this.logger.debug(`user ${userData.gid} is not a member of workspace ${workspaceId}`);
             return null;
         }
+
+        return userData;
+    }
+
+    /**
+     * Send actions through the batch API, split into requests of at most MAX_BATCH_ACTIONS.
+     * Actions fail one by one: a failed action, or every action of a failed batch request, gets an error result.
+     * @param describe Names the resource of the action at the given index, used in error messages
+     */
+    private async batch<T = any>(
+        accessToken: string,
+        actions: Array<IBatchAction>,
+        http: IHttp,
+        describe: (index: number) => string,
+    ): Promise<Array<IBatchResult<T>>> {
+        const results: Array<IBatchResult<T>> = [];
+
+        for (let start = 0; start < actions.length; start += MAX_BATCH_ACTIONS) {
+            const chunk = actions.slice(start, start + MAX_BATCH_ACTIONS);
+
+            let responses: Array<{ status_code: number; body: any }>;
+            try {
+                const response = await this.client.post(accessToken, `${this.baseUrl}/batch`, {
+                    headers: this.getAuthHeaders(accessToken),
+                    data: { data: { actions: chunk } },
+                }, http);
+                responses = this.getData(response, HttpStatusCode.OK, `a batch of ${chunk.length} requests`);
+            } catch (error) {
+                chunk.forEach(() => results.push({ error }));
+                continue;
+            }
+
+            chunk.forEach((action, index) => {
+                const actionResponse = responses[index];
+                if (actionResponse && actionResponse.status_code >= 200 && actionResponse.status_code < 300 && actionResponse.body) {
+                    results.push({ data: actionResponse.body.data });
+                    return;
+                }
+
+                const statusCode = actionResponse ? actionResponse.status_code : HttpStatusCode.INTERNAL_SERVER_ERROR;
+                const body = actionResponse ? actionResponse.body : undefined;
+                this.logger.debug(`Batch action ${action.method.toUpperCase()} ${action.relative_path} failed with status ${statusCode}`);
+                results.push({ error: createAsanaErrorForStatus(statusCode, body, describe(start + index)) });
+            });
+        }
+
+        return results;
+    }
+
+    /**
+     * Fetch a list endpoint page by page, following next_page.offset until the list ends or maxItems is reached.
+     * Throws when the first page fails; a later failing page ends the fetch with what was loaded so far,
+     * its offset is kept as nextOffset.
+     * @param resource What the list is, used in error messages
+     */
+    private async getPaged<T = any>(
+        accessToken: string,
+        path: string,
+        params: { [key: string]: string },
+        http: IHttp,
+        maxItems: number,
+        resource: string,
+    ): Promise<IPagedResult<T>> {
+        const data: Array<T> = [];
+        let offset: string | undefined;
+
+        do {
+            let page: { data: Array<T>; next_page?: { offset: string } | null };
+            try {
+                const response = await this.client.get(accessToken, `${this.baseUrl}${path}`, {
+                    headers: this.getAuthHeaders(accessToken),
+                    params: {
+                        ...params,
+                        limit: String(Math.min(PAGE_SIZE, maxItems - data.length)),
+                        ...(offset ? { offset } : {}),
+                    },
+                }, http);
+
+                this.getData<Array<T>>(response, HttpStatusCode.OK, resource);
+                page = response.data;
+            } catch (error) {
+                if (data.length === 0) {
+                    throw error;
+                }
+                this.logger.error(`Stopped loading ${resource} after ${data.length} items:`, error);
+                return { data, nextOffset: offset };
+            }
+
+            data.push(...page.data);
+            offset = page.next_page ? page.next_page.offset : undefined;
+        } while (offset && data.length < maxItems);
+
+        return { data, nextOffset: offset };
     }
 
     /**
@@ -473,6 +859,19 @@ export class AsanaApiService {
             'Accept': 'application/json',
         };
     }
+
+    /**
+     * Return the data of a successful response, or throw the AsanaApiError matching the failure
+     * @param resource What the request was about, used in error messages
+     */
+    private getData<T>(response: IHttpResponse, expectedStatus: HttpStatusCode, resource: string): T {
+        if (response.statusCode === expectedStatus && response.data && response.data.data) {
+            return response.data.data;
+        }
+
+        this.logger.error(`Asana request for ${resource} failed with status ${response.statusCode}:`, response.content);
+        throw createAsanaError(response, resource);
+    }
 }
 
 // Add default export
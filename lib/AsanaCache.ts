@@ -0,0 +1,138 @@
+import { IHttp, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { AppSetting } from '../settings/Settings';
+import { AsanaApiService, IBatchResult } from './AsanaApiService';
+import { IAsanaProject, IAsanaTask, IAsanaUser } from './AsanaModels';
+
+type CachedResourceType = 'task' | 'project' | 'user';
+
+interface ICacheEntry<T> {
+    type: CachedResourceType;
+    gid: string;
+    data: T;
+    expiresAt: number;
+}
+
+/**
+ * Persistent cache in front of the task, project and user lookups of AsanaApiService.
+ * Entries are kept per scope, the ID of the Rocket.Chat user whose token loads them, so a cache never hands out
+ * objects that user cannot see. Webhook notifications all load with the app user's token and share its scope,
+ * whatever room they are posted to. Entries expire after the CacheTtl setting,
+ * and invalidate() drops every scope's entry for a resource, e.g. when a webhook event reports a change.
+ */
+export class AsanaCache {
+    constructor(
+        private readonly apiService: AsanaApiService,
+        private readonly read: IRead,
+        private readonly persis: IPersistence,
+        private readonly scope: string,
+    ) {}
+
+    public getTask(accessToken: string, taskId: string, http: IHttp): Promise<IAsanaTask> {
+        return this.getOrLoad('task', taskId, () => this.apiService.getTaskById(accessToken, taskId, http));
+    }
+
+    public getProject(accessToken: string, projectId: string, http: IHttp): Promise<IAsanaProject> {
+        return this.getOrLoad('project', projectId, () => this.apiService.getProjectById(accessToken, projectId, http));
+    }
+
+    /**
+     * Look up several tasks, the ones not in the cache are loaded together with the batch API
+     * @returns One result per task ID in the same order, a task that could not be loaded has an error instead of data
+     */
+    public async getTasks(accessToken: string, taskIds: Array<string>, http: IHttp): Promise<Array<IBatchResult<IAsanaTask>>> {
+        const ttl = await this.getTtlMs();
+        const results: Array<IBatchResult<IAsanaTask>> = [];
+        const missing: Array<number> = [];
+
+        for (let index = 0; index < taskIds.length; index++) {
+            const cached = ttl > 0 ? await this.readEntry<IAsanaTask>('task', taskIds[index]) : undefined;
+            if (cached) {
+                results[index] = { data: cached };
+            } else {
+                missing.push(index);
+            }
+        }
+
+        if (missing.length === 0) {
+            return results;
+        }
+
+        const loaded = await this.apiService.getTasksByIds(accessToken, missing.map((index) => taskIds[index]), http);
+        for (let position = 0; position < missing.length; position++) {
+            const result = loaded[position];
+            results[missing[position]] = result;
+            if (ttl > 0 && result.data) {
+                await this.writeEntry('task', taskIds[missing[position]], result.data, ttl);
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * @returns null if the user does not exist, which is not cached
+     */
+    public getUser(accessToken: string, userId: string, http: IHttp): Promise<IAsanaUser | null> {
+        return this.getOrLoad('user', userId, () => this.apiService.getUserById(accessToken, userId, http));
+    }
+
+    /**
+     * drop the cached copies of a resource for all scopes
+     */
+    public async invalidate(gid: string): Promise<void> {
+        await this.persis.removeByAssociation(this.getResourceAssociation(gid));
+    }
+
+    private async getOrLoad<T>(type: CachedResourceType, gid: string, load: () => Promise<T>): Promise<T> {
+        const ttl = await this.getTtlMs();
+        if (ttl <= 0) {
+            return load();
+        }
+
+        const cached = await this.readEntry<T>(type, gid);
+        if (cached) {
+            return cached;
+        }
+
+        const data = await load();
+        if (data) {
+            await this.writeEntry(type, gid, data, ttl);
+        }
+        return data;
+    }
+
+    /**
+     * @returns the cached data, or undefined if there is none or it expired
+     */
+    private async readEntry<T>(type: CachedResourceType, gid: string): Promise<T | undefined> {
+        const [entry] = await this.read.getPersistenceReader().readByAssociations(this.getAssociations(gid)) as [ICacheEntry<T> | undefined];
+        if (entry && entry.type === type && entry.expiresAt > Date.now()) {
+            return entry.data;
+        }
+        return undefined;
+    }
+
+    private async writeEntry<T>(type: CachedResourceType, gid: string, data: T, ttl: number): Promise<void> {
+        const entry: ICacheEntry<T> = { type, gid, data, expiresAt: Date.now() + ttl };
+        await this.persis.updateByAssociations(this.getAssociations(gid), entry, true);
+    }
+
+    private async getTtlMs(): Promise<number> {
+        const ttl = await this.read.getEnvironmentReader().getSettings().getValueById(AppSetting.CacheTtl);
+        const seconds = Number(ttl);
+        return isNaN(seconds) ? 0 : seconds * 1000;
+    }
+
+    private getAssociations(gid: string): Array<RocketChatAssociationRecord> {
+        return [this.getResourceAssociation(gid), this.getScopeAssociation()];
+    }
+
+    private getResourceAssociation(gid: string): RocketChatAssociationRecord {
+        return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `asana_cache_${gid}`);
+    }
+
+    private getScopeAssociation(): RocketChatAssociationRecord {
+        return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `asana_cache_scope_${this.scope}`);
+    }
+}
@@ -0,0 +1,106 @@
+import { IHttpResponse } from '@rocket.chat/apps-engine/definition/accessors';
+
+/**
+ * Why an Asana API call failed
+ */
+export enum AsanaErrorKind {
+    // 401: the token was rejected and could not be refreshed
+    Unauthorized = 'unauthorized',
+    // 403: the user has no access to the object
+    Forbidden = 'forbidden',
+    // 404: the object does not exist, or is not visible to the user
+    NotFound = 'not_found',
+    // 429 that did not clear within the retries of AsanaHttpClient
+    RateLimited = 'rate_limited',
+    // 5xx or network failure that did not clear within the retries of AsanaHttpClient
+    Unavailable = 'unavailable',
+    // any other rejected request, e.g. 400 for invalid input or 402 for premium features
+    Rejected = 'rejected',
+}
+
+/**
+ * A failed Asana API call, the message can be shown to users as is
+ */
+export class AsanaApiError extends Error {
+    constructor(public readonly kind: AsanaErrorKind, message: string, public readonly statusCode?: number) {
+        super(message);
+        this.name = 'AsanaApiError';
+    }
+}
+
+/**
+ * Check whether an error is an Asana API failure of the given kind
+ */
+export function isAsanaError(error: any, kind: AsanaErrorKind): error is AsanaApiError {
+    return error instanceof AsanaApiError && error.kind === kind;
+}
+
+/**
+ * Error for a network failure that did not clear within the retries
+ */
+export function createUnavailableError(): AsanaApiError {
+    return new AsanaApiError(AsanaErrorKind.Unavailable, 'Asana is not reachable right now, please try again later.');
+}
+
+/**
+ * Build the error for a failed response
+ * @param resource What the request was about, e.g. "task 1234", used in the message
+ */
+export function createAsanaError(response: IHttpResponse, resource: string): AsanaApiError {
+    let responseData = response.data;
+    if (!responseData && typeof response.content === 'string') {
+        try {
+            responseData = JSON.parse(response.content);
+        } catch (parseError) {
+            responseData = response.content;
+        }
+    }
+
+    return createAsanaErrorForStatus(response.statusCode, responseData, resource);
+}
+
+/**
+ * Build the error for a failed request from its status code and parsed body,
+ * e.g. for a single action of a batch request
+ */
+export function createAsanaErrorForStatus(statusCode: number, body: any, resource: string): AsanaApiError {
+    switch (statusCode) {
+        case 401:
+            return new AsanaApiError(
+                AsanaErrorKind.Unauthorized,
+                'Asana did not accept your authorization. Please run `/asana auth` command again.',
+                statusCode,
+            );
+        case 403:
+            return new AsanaApiError(AsanaErrorKind.Forbidden, `You do not have access to ${resource} in Asana.`, statusCode);
+        case 404:
+            return new AsanaApiError(AsanaErrorKind.NotFound, `${capitalize(resource)} was not found in Asana.`, statusCode);
+        case 429:
+            return new AsanaApiError(AsanaErrorKind.RateLimited, 'Asana is limiting requests right now, please try again in a minute.', statusCode);
+    }
+
+    if (statusCode >= 500) {
+        return new AsanaApiError(AsanaErrorKind.Unavailable, 'Asana is not reachable right now, please try again later.', statusCode);
+    }
+
+    return new AsanaApiError(AsanaErrorKind.Rejected, `Asana rejected the request for ${resource}: ${getErrorMessage(statusCode, body)}`, statusCode);
+}
+
+function capitalize(text: string): string {
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+}
+
+/**
+ * Extract a readable error message from an Asana error body
+ */
+function getErrorMessage(statusCode: number, body: any): string {
+    if (body && Array.isArray(body.errors) && body.errors.length > 0) {
+        return body.errors.map((error: any) => error.message).join('; ');
+    }
+
+    if (typeof body === 'string' && body) {
+        return body;
+    }
+
+    return `status ${statusCode}`;
+}
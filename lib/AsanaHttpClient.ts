@@ -0,0 +1,176 @@
+import { IHttp, IHttpRequest, IHttpResponse, ILogger } from '@rocket.chat/apps-engine/definition/accessors';
+import { createUnavailableError } from './AsanaErrors';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'del';
+
+/**
+ * Returns a new access token for one the API rejected, or undefined if it can't be refreshed
+ */
+export type AccessTokenRefresher = (accessToken: string) => Promise<string | undefined>;
+
+// requests in flight per access token, Asana allows more but a bulk webhook delivery shouldn't use them all
+const MAX_CONCURRENT_REQUESTS = 5;
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+
+// don't hold a command or webhook delivery longer than this for a single retry
+const MAX_RETRY_DELAY_MS = 10000;
+
+/**
+ * Shared request layer for the Asana API.
+ * Waits out HTTP 429 using Retry-After, retries 5xx responses and network errors with exponential backoff and jitter,
+ * and caps the number of requests in flight per access token.
+ * POST requests are only retried on 429, as a failed create may still have been applied.
+ * A request answered with 401 is sent once more with a refreshed access token.
+ */
+export class AsanaHttpClient {
+    private readonly active = new Map<string, number>();
+    private readonly waiting = new Map<string, Array<() => void>>();
+    // access token -> time until which Asana asked us to stop sending requests
+    private readonly blockedUntil = new Map<string, number>();
+
+    constructor(private readonly logger: ILogger, private readonly refreshAccessToken?: AccessTokenRefresher) {}
+
+    public get(accessToken: string, url: string, options: IHttpRequest, http: IHttp): Promise<IHttpResponse> {
+        return this.request('get', accessToken, url, options, http);
+    }
+
+    public post(accessToken: string, url: string, options: IHttpRequest, http: IHttp): Promise<IHttpResponse> {
+        return this.request('post', accessToken, url, options, http);
+    }
+
+    public put(accessToken: string, url: string, options: IHttpRequest, http: IHttp): Promise<IHttpResponse> {
+        return this.request('put', accessToken, url, options, http);
+    }
+
+    public del(accessToken: string, url: string, options: IHttpRequest, http: IHttp): Promise<IHttpResponse> {
+        return this.request('del', accessToken, url, options, http);
+    }
+
+    private async request(method: HttpMethod, accessToken: string, url: string, options: IHttpRequest, http: IHttp): Promise<IHttpResponse> {
+        const retryOnFailure = method !== 'post';
+        let tokenRefreshed = false;
+
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire(accessToken);
+
+            let response: IHttpResponse;
+            try {
+                response = await http[method](url, options);
+            } catch (error) {
+                if (!retryOnFailure || attempt >= MAX_RETRIES) {
+                    this.logger.error(`${method.toUpperCase()} ${url} failed:`, error);
+                    throw createUnavailableError();
+                }
+
+                const delay = this.getBackoffDelay(attempt);
+                this.logger.debug(`${method.toUpperCase()} ${url} failed (${error.message}), retrying in ${delay}ms`);
+                await this.sleep(delay);
+                continue;
+            } finally {
+                this.release(accessToken);
+            }
+
+            if (response.statusCode === 401 && !tokenRefreshed && this.refreshAccessToken) {
+                tokenRefreshed = true;
+                const refreshedToken = await this.refreshAccessToken(accessToken);
+                if (refreshedToken) {
+                    this.logger.debug(`Access token rejected on ${method.toUpperCase()} ${url}, retrying with a refreshed token`);
+                    accessToken = refreshedToken;
+                    options = { ...options, headers: { ...options.headers, Authorization: `Bearer ${refreshedToken}` } };
+                    continue;
+                }
+            }
+
+            if (response.statusCode === 429 && attempt < MAX_RETRIES) {
+                const delay = this.getRetryAfterDelay(response, attempt);
+                if (delay <= MAX_RETRY_DELAY_MS) {
+                    this.logger.debug(`Rate limited by Asana on ${method.toUpperCase()} ${url}, retrying in ${delay}ms`);
+                    this.blockedUntil.set(accessToken, Date.now() + delay);
+                    await this.sleep(delay);
+                    continue;
+                }
+                this.logger.error(`Rate limited by Asana for ${Math.round(delay / 1000)}s, giving up on ${method.toUpperCase()} ${url}`);
+            }
+
+            if (response.statusCode >= 500 && retryOnFailure && attempt < MAX_RETRIES) {
+                const delay = this.getBackoffDelay(attempt);
+                this.logger.debug(`Asana returned ${response.statusCode} on ${method.toUpperCase()} ${url}, retrying in ${delay}ms`);
+                await this.sleep(delay);
+                continue;
+            }
+
+            return response;
+        }
+    }
+
+    /**
+     * wait for a free request slot of the token, and for a Retry-After pause to end
+     */
+    private async acquire(accessToken: string): Promise<void> {
+        const count = this.active.get(accessToken) || 0;
+        if (count < MAX_CONCURRENT_REQUESTS) {
+            this.active.set(accessToken, count + 1);
+        } else {
+            // the slot is handed over by release() without changing the count
+            await new Promise<void>((resolve) => {
+                const queue = this.waiting.get(accessToken) || [];
+                queue.push(resolve);
+                this.waiting.set(accessToken, queue);
+            });
+        }
+
+        const blockedUntil = this.blockedUntil.get(accessToken);
+        if (blockedUntil) {
+            if (blockedUntil > Date.now()) {
+                await this.sleep(blockedUntil - Date.now());
+            } else {
+                this.blockedUntil.delete(accessToken);
+            }
+        }
+    }
+
+    private release(accessToken: string): void {
+        const queue = this.waiting.get(accessToken);
+        const next = queue && queue.shift();
+        if (next) {
+            if (queue!.length === 0) {
+                this.waiting.delete(accessToken);
+            }
+            next();
+            return;
+        }
+
+        const count = (this.active.get(accessToken) || 1) - 1;
+        if (count > 0) {
+            this.active.set(accessToken, count);
+        } else {
+            this.active.delete(accessToken);
+        }
+    }
+
+    /**
+     * exponential backoff with full jitter
+     */
+    private getBackoffDelay(attempt: number): number {
+        return Math.round(Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, attempt + 1)));
+    }
+
+    /**
+     * delay requested by the Retry-After header (in seconds), with a little jitter so waiting requests don't all resume at once
+     */
+    private getRetryAfterDelay(response: IHttpResponse, attempt: number): number {
+        const headers = response.headers || {};
+        const retryAfter = parseInt(headers['retry-after'] || headers['Retry-After'], 10);
+        if (isNaN(retryAfter)) {
+            return this.getBackoffDelay(attempt);
+        }
+
+        return retryAfter * 1000 + Math.round(Math.random() * BASE_RETRY_DELAY_MS);
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * Asana API objects as returned by AsanaApiService.
+ * Which optional fields are set depends on the opt_fields of the request.
+ */
+
+/**
+ * Compact reference to another Asana object
+ */
+export interface IAsanaResource {
+    gid: string;
+    name?: string;
+    resource_type?: string;
+}
+
+export interface IAsanaWorkspace {
+    gid: string;
+    name: string;
+    is_organization?: boolean;
+}
+
+export interface IAsanaUser {
+    gid: string;
+    name: string;
+    email?: string;
+    photo?: { [size: string]: string } | null;
+    workspaces?: Array<IAsanaResource>;
+}
+
+export interface IAsanaProject {
+    gid: string;
+    name: string;
+    notes?: string;
+    archived?: boolean;
+    public?: boolean;
+    owner?: IAsanaResource | null;
+    workspace?: IAsanaResource;
+    permalink_url?: string;
+}
+
+export interface IAsanaSection {
+    gid: string;
+    name: string;
+    project?: IAsanaResource;
+}
+
+export interface IAsanaTaskMembership {
+    project?: IAsanaResource;
+    section?: IAsanaResource;
+}
+
+export interface IAsanaTask {
+    gid: string;
+    name: string;
+    completed?: boolean;
+    due_on?: string | null;
+    notes?: string;
+    html_notes?: string;
+    assignee?: IAsanaResource | null;
+    projects?: Array<IAsanaResource>;
+    memberships?: Array<IAsanaTaskMembership>;
+    workspace?: IAsanaResource;
+    parent?: IAsanaResource | null;
+    num_subtasks?: number;
+    tags?: Array<IAsanaResource>;
+    created_at?: string;
+    modified_at?: string;
+    permalink_url?: string;
+    custom_fields?: Array<IAsanaCustomField>;
+}
+
+/**
+ * A custom field with its value on a task, which value field is set depends on resource_subtype
+ */
+export interface IAsanaCustomField {
+    gid: string;
+    name: string;
+    // text, enum, multi_enum, number, date, people, ...
+    resource_subtype?: string;
+    type?: string;
+    display_value?: string | null;
+    enum_value?: IAsanaResource | null;
+    multi_enum_values?: Array<IAsanaResource>;
+    number_value?: number | null;
+    precision?: number;
+    // none, currency, percentage, custom, ...
+    format?: string;
+    currency_code?: string | null;
+    text_value?: string | null;
+    date_value?: { date: string; date_time?: string | null } | null;
+    people_value?: Array<IAsanaResource>;
+}
+
+export interface IAsanaTag {
+    gid: string;
+    name: string;
+    color?: string | null;
+    workspace?: IAsanaResource;
+}
+
+/**
+ * A file attached to a task
+ */
+export interface IAsanaAttachment {
+    gid: string;
+    name: string;
+    resource_subtype?: string;
+    parent?: IAsanaResource;
+    permalink_url?: string;
+    view_url?: string | null;
+    download_url?: string | null;
+}
+
+/**
+ * A comment or system story on a task
+ */
+export interface IAsanaStory {
+    gid: string;
+    text?: string;
+    html_text?: string;
+    resource_subtype?: string;
+    created_at?: string;
+    created_by?: IAsanaResource | null;
+    target?: IAsanaResource & { permalink_url?: string };
+}
+
+export interface IAsanaWebhook {
+    gid: string;
+    active?: boolean;
+    target?: string;
+    resource: IAsanaResource;
+    created_at?: string;
+    last_failure_at?: string | null;
+    last_failure_content?: string;
+}
@@ -8,9 +8,32 @@ import { IAuthData } from '@rocket.chat/apps-engine/definition/oauth2/IOAuth2';
 import { App } from '@rocket.chat/apps-engine/definition/App';
 import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
 
+/**
+ * Token response of the Asana OAuth endpoint, as stored per user
+ */
+export interface IAsanaTokenData {
+    access_token: string;
+    refresh_token?: string;
+    token_type?: string;
+    expires_in?: number;
+    // absolute expiry in ms since epoch, added when the token is stored
+    expires_at?: number;
+    data?: { id?: string; gid?: string; name?: string; email?: string };
+}
+
+// refresh tokens this long before they expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
 export class AsanaOAuth2Service {
     private oauthClient: IOAuth2Client;
 
+    // latest token per user id, refreshed tokens are kept here until they can be persisted
+    private readonly tokens = new Map<string, IAsanaTokenData>();
+    // access token -> user id, to refresh a token rejected by the API
+    private readonly tokenOwners = new Map<string, string>();
+    // refresh requests in flight per user id
+    private readonly refreshing = new Map<string, Promise<IAsanaTokenData | null>>();
+
     constructor(private readonly app: App) {
         // OAuth2 client will be initialized in setup
     }
@@ -26,7 +49,7 @@ export class AsanaOAuth2Service {
             this.app.getLogger().debug('OAuth2 setup - Settings retrieved:', { 
                 clientIdSet: !!clientId, 
                 clientSecretSet: !!clientSecret, 
-                redirectUriSet: !!redirectUri 
+                redirectUriSet: !!redirectUri,
             });
 
             if (!clientId || !clientSecret || !redirectUri) {
@@ -96,7 +119,7 @@ export class AsanaOAuth2Service {
             this.app.getLogger().debug('Checking redirect URI:', {
                 redirectUri,
                 length: redirectUri.length,
-                containsEncodedChars: redirectUri.includes('%')
+                containsEncodedChars: redirectUri.includes('%'),
             });
             
             // Generate random state - using a simple random string without user ID
@@ -151,7 +174,12 @@ export class AsanaOAuth2Service {
         }
     }
 
-    public async getAccessTokenForUser(user: IUser, read: IRead): Promise<any> {
+    /**
+     * Get the user's token, refreshing it when it is about to expire.
+     * A refreshed token is stored right away, a token whose refresh token was revoked is removed.
+     * @returns the token, or null when the user has to run `/asana auth` (again)
+     */
+    public async getAccessTokenForUser(user: IUser, read: IRead, persis: IPersistence): Promise<IAsanaTokenData | null> {
         try {
             if (!this.oauthClient) {
                 throw new Error('OAuth client not initialized');
@@ -160,24 +188,85 @@ export class AsanaOAuth2Service {
             this.app.getLogger().debug(`Attempting to get access token for user: ${user.username} (ID: ${user.id})`);
             
             // Directly get user token from persistent storage
-            const association = new RocketChatAssociationRecord(RocketChatAssociationModel.USER, user.id);
+            const association = this.getTokenAssociation(user.id);
             
-            const [tokenData] = await read.getPersistenceReader().readByAssociation(association);
+            const [storedToken] = await read.getPersistenceReader().readByAssociation(association) as [IAsanaTokenData | undefined];
             
-            if (tokenData) {
-                this.app.getLogger().debug(`Token retrieved for user ${user.username}:`, tokenData);
-                return tokenData;
-            } else {
+            if (!storedToken) {
                 this.app.getLogger().debug(`No token found in persistence for user ${user.username}.`);
-                
+                this.forgetUser(user.id);
                 return null;
             }
+
+            // prefer a token refreshed since it was stored, as long as it belongs to the same authorization
+            const cachedToken = this.tokens.get(user.id);
+            let tokenData = cachedToken && cachedToken.refresh_token === storedToken.refresh_token
+                && (cachedToken.expires_at || 0) > (storedToken.expires_at || 0)
+                ? cachedToken
+                : storedToken;
+            this.remember(user.id, tokenData);
+
+            if (tokenData.refresh_token && (!tokenData.expires_at || tokenData.expires_at - Date.now() < REFRESH_MARGIN_MS)) {
+                const refreshedToken = await this.refreshUserToken(user.id, tokenData);
+                if (!refreshedToken) {
+                    // the refresh token was revoked, the user has to authorize again
+                    await persis.removeByAssociation(association);
+                    return null;
+                }
+                tokenData = refreshedToken;
+            }
+
+            if (tokenData.access_token !== storedToken.access_token) {
+                // refreshed just now, or after a 401 on an earlier request.
+                // Asana may hand out a new refresh token, losing it would log the user out after a restart
+                try {
+                    await persis.updateByAssociation(association, tokenData, true);
+                } catch (error) {
+                    // kept in memory, the next request stores it
+                    this.app.getLogger().error(`Failed to store the refreshed token of user ${user.username}:`, error);
+                }
+            }
+
+            return tokenData;
         } catch (error) {
             this.app.getLogger().error(`Failed to get access token for user: ${user.username}`, error);
             return null;
         }
     }
 
+    /**
+     * Refresh an access token the API rejected with 401.
+     * The new token is only kept in memory: persistence accessors belong to the request that got them,
+     * so the next getAccessTokenForUser stores it with its own.
+     * @returns the new access token, or undefined if the token can't be refreshed
+     */
+    public async refreshAccessToken(accessToken: string): Promise<string | undefined> {
+        const userId = this.tokenOwners.get(accessToken);
+        const tokenData = userId ? this.tokens.get(userId) : undefined;
+        if (!userId || !tokenData) {
+            return undefined;
+        }
+
+        // another request refreshed it already
+        if (tokenData.access_token !== accessToken) {
+            return tokenData.access_token;
+        }
+
+        const refreshedToken = await this.refreshUserToken(userId, tokenData);
+        return refreshedToken && refreshedToken.access_token !== accessToken ? refreshedToken.access_token : undefined;
+    }
+
+    /**
+     * Drop the cached token of a user, after logging out
+     */
+    public forgetUser(userId: string): void {
+        const tokenData = this.tokens.get(userId);
+        if (tokenData) {
+            this.tokenOwners.delete(tokenData.access_token);
+            this.tokens.delete(userId);
+        }
+    }
+
     public async handleOAuthCallback(user: IUser, code: string, state: string, read: IRead, http: IHttp, persis: IPersistence): Promise<boolean> {
         try {
             if (!this.oauthClient) {
@@ -213,7 +302,7 @@ export class AsanaOAuth2Service {
             this.app.getLogger().debug('OAuth settings retrieved:', {
                 clientIdSet: !!clientId,
                 clientSecretSet: !!clientSecret,
-                redirectUriSet: !!redirectUri
+                redirectUriSet: !!redirectUri,
             });
             
             try {
@@ -227,9 +316,9 @@ export class AsanaOAuth2Service {
                      
                 const response = await http.post('https://app.asana.com/-/oauth_token', {
                     headers: {
-                        'Content-Type': 'application/x-www-form-urlencoded'
+                        'Content-Type': 'application/x-www-form-urlencoded',
                     },
-                    content: formData.toString()
+                    content: formData.toString(),
                 });
                 
                 this.app.getLogger().debug(`Token response received with status: ${response.statusCode}`);
@@ -242,6 +331,7 @@ export class AsanaOAuth2Service {
                             try {
                                 errorData = JSON.parse(errorData);
                             } catch (e) {
+                                // not JSON, log the text as it is
                             }
                         }
                         this.app.getLogger().error('Token request failed with error:', errorData);
@@ -251,7 +341,7 @@ export class AsanaOAuth2Service {
                 }
                 
                 if (response.statusCode === 200 && (response.data || response.content)) {
-                    const tokenData = response.data || (response.content ? JSON.parse(response.content) : {});
+                    const tokenData = this.withExpiry(response.data || (response.content ? JSON.parse(response.content) : {}));
                     
                     // Create user association
                     const association = new RocketChatAssociationRecord(RocketChatAssociationModel.USER, user.id);
@@ -284,6 +374,95 @@ export class AsanaOAuth2Service {
             return false;
         }
     }
+
+    private remember(userId: string, tokenData: IAsanaTokenData): void {
+        const previous = this.tokens.get(userId);
+        if (previous && previous.access_token !== tokenData.access_token) {
+            this.tokenOwners.delete(previous.access_token);
+        }
+        this.tokens.set(userId, tokenData);
+        this.tokenOwners.set(tokenData.access_token, userId);
+    }
+
+    /**
+     * Exchange the refresh token for a new access token, one request per user at a time
+     * @returns the new token, the old one if refreshing failed for another reason, or null when the refresh token was revoked
+     */
+    private refreshUserToken(userId: string, tokenData: IAsanaTokenData): Promise<IAsanaTokenData | null> {
+        let request = this.refreshing.get(userId);
+        if (!request) {
+            request = this.requestTokenRefresh(userId, tokenData).then((refreshedToken) => {
+                this.refreshing.delete(userId);
+                return refreshedToken;
+            });
+            this.refreshing.set(userId, request);
+        }
+        return request;
+    }
+
+    private async requestTokenRefresh(userId: string, tokenData: IAsanaTokenData): Promise<IAsanaTokenData | null> {
+        if (!tokenData.refresh_token) {
+            return tokenData;
+        }
+
+        try {
+            const environmentReader = this.app.getAccessors().environmentReader;
+            const clientId = await environmentReader.getSettings().getValueById(AppSetting.AsanaClientId);
+            const clientSecret = await environmentReader.getSettings().getValueById(AppSetting.AsanaClientSecret);
+
+            const formData = new URLSearchParams();
+            formData.append('grant_type', 'refresh_token');
+            formData.append('refresh_token', tokenData.refresh_token);
+            formData.append('client_id', clientId);
+            formData.append('client_secret', clientSecret);
+
+            const response = await this.app.getAccessors().http.post('https://app.asana.com/-/oauth_token', {
+                headers: {
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                },
+                content: formData.toString(),
+            });
+
+            if (response.statusCode !== 200 || !(response.data || response.content)) {
+                this.app.getLogger().error(`Failed to refresh access token of user ${userId}: ${response.statusCode} - ${response.content}`);
+                // 400 invalid_grant or 401: the refresh token was revoked, the user has to authorize again
+                if (response.statusCode === 400 || response.statusCode === 401) {
+                    this.forgetUser(userId);
+                    return null;
+                }
+                return tokenData;
+            }
+
+            const refreshData = response.data || JSON.parse(response.content!);
+            const refreshedToken = this.withExpiry({
+                ...tokenData,
+                ...refreshData,
+                // Asana keeps the refresh token the same and leaves it out of the response
+                refresh_token: refreshData.refresh_token || tokenData.refresh_token,
+            });
+
+            this.remember(userId, refreshedToken);
+            this.app.getLogger().debug(`Access token refreshed for user ${userId}`);
+            return refreshedToken;
+        } catch (error) {
+            this.app.getLogger().error(`Error refreshing access token of user ${userId}:`, error);
+            return tokenData;
+        }
+    }
+
+    /**
+     * Add the absolute expiry to a token response
+     */
+    private withExpiry(tokenData: IAsanaTokenData): IAsanaTokenData {
+        return {
+            ...tokenData,
+            expires_at: tokenData.expires_in ? Date.now() + tokenData.expires_in * 1000 : undefined,
+        };
+    }
+
+    private getTokenAssociation(userId: string): RocketChatAssociationRecord {
+        return new RocketChatAssociationRecord(RocketChatAssociationModel.USER, userId);
+    }
 }
 
 export default AsanaOAuth2Service;
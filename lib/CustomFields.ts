@@ -0,0 +1,130 @@
+import { IAsanaCustomField, IAsanaTask } from './AsanaModels';
+
+/**
+ * A `--field Name=Value` filter of the task list commands
+ */
+export interface ICustomFieldFilter {
+    name: string;
+    value: string;
+}
+
+/**
+ * Format the value of a custom field for chat
+ * @returns undefined when the field is empty
+ */
+export function formatCustomFieldValue(field: IAsanaCustomField): string | undefined {
+    switch (field.resource_subtype || field.type) {
+        case 'enum':
+            return field.enum_value ? field.enum_value.name : undefined;
+        case 'multi_enum':
+            return field.multi_enum_values && field.multi_enum_values.length > 0
+                ? field.multi_enum_values.map((option) => option.name).join(', ')
+                : undefined;
+        case 'number':
+            return formatNumber(field);
+        case 'text':
+            return field.text_value || undefined;
+        case 'date':
+            return field.date_value ? field.date_value.date_time || field.date_value.date : undefined;
+        case 'people':
+            return field.people_value && field.people_value.length > 0
+                ? field.people_value.map((person) => person.name || person.gid).join(', ')
+                : undefined;
+        default:
+            // formulas, timers and field types added later: Asana's own rendering
+            return field.display_value || undefined;
+    }
+}
+
+/**
+ * The custom fields of a task that have a value, formatted for chat
+ */
+export function getCustomFieldValues(task: IAsanaTask): Array<{ name: string; value: string }> {
+    const values: Array<{ name: string; value: string }> = [];
+    (task.custom_fields || []).forEach((field) => {
+        const value = formatCustomFieldValue(field);
+        if (value !== undefined) {
+            values.push({ name: field.name, value });
+        }
+    });
+    return values;
+}
+
+/**
+ * Collect the `--field Name=Value` flags from command parameters.
+ * Name and value may contain spaces, they run until the next `--` flag.
+ * @returns the filters, the parameters without them, and the flags that are not Name=Value
+ */
+export function parseCustomFieldFilters(params: Array<string>): { filters: Array<ICustomFieldFilter>; rest: Array<string>; invalid: Array<string> } {
+    const filters: Array<ICustomFieldFilter> = [];
+    const rest: Array<string> = [];
+    const invalid: Array<string> = [];
+
+    for (let i = 0; i < params.length; i++) {
+        if (params[i].toLowerCase() !== '--field') {
+            rest.push(params[i]);
+            continue;
+        }
+
+        const words: Array<string> = [];
+        while (i + 1 < params.length && !params[i + 1].startsWith('--')) {
+            words.push(params[++i]);
+        }
+
+        const expression = words.join(' ');
+        const separator = expression.indexOf('=');
+        const name = expression.slice(0, separator).trim();
+        const value = expression.slice(separator + 1).trim();
+        if (separator <= 0 || !name || !value) {
+            invalid.push(expression);
+        } else {
+            filters.push({ name, value });
+        }
+    }
+
+    return { filters, rest, invalid };
+}
+
+/**
+ * Whether a task matches all filters.
+ * Names and values are compared case-insensitively, numbers also by value, and a multi-value field
+ * (multi-enum, people) matches when one of its values does. The value "none" matches an empty field.
+ */
+export function matchesCustomFieldFilters(task: IAsanaTask, filters: Array<ICustomFieldFilter>): boolean {
+    return filters.every((filter) => {
+        const field = (task.custom_fields || []).find((candidate) => candidate.name.toLowerCase() === filter.name.toLowerCase());
+        if (!field) {
+            return false;
+        }
+
+        if ((field.resource_subtype || field.type) === 'number' && field.number_value === parseFloat(filter.value)) {
+            return true;
+        }
+
+        const expected = filter.value.toLowerCase();
+        const value = formatCustomFieldValue(field);
+        if (value === undefined) {
+            return expected === 'none';
+        }
+
+        return value.toLowerCase() === expected || value.split(', ').some((part) => part.toLowerCase() === expected);
+    });
+}
+
+function formatNumber(field: IAsanaCustomField): string | undefined {
+    if (field.number_value === null || field.number_value === undefined) {
+        return undefined;
+    }
+
+    const precision = field.precision || 0;
+    switch (field.format) {
+        case 'percentage':
+            return `${(field.number_value * 100).toFixed(precision)}%`;
+        case 'currency':
+            return `${field.number_value.toFixed(precision)} ${field.currency_code || ''}`.trim();
+        case 'custom':
+            return field.display_value || field.number_value.toFixed(precision);
+        default:
+            return field.number_value.toFixed(precision);
+    }
+}
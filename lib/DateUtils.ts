@@ -0,0 +1,75 @@
+/**
+ * Format a date as YYYY-MM-DD, the format Asana uses for due_on
+ */
+export function formatDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a due date typed in chat.
+ * Accepts YYYY-MM-DD, "today", "tomorrow" and "+Nd"; "none" or "clear" remove the due date.
+ * @returns the date as YYYY-MM-DD, null to clear it, or undefined if the input is not a date
+ */
+export function parseDueDate(input: string): string | null | undefined {
+    const value = (input || '').trim().toLowerCase();
+
+    if (value === 'none' || value === 'clear') {
+        return null;
+    }
+
+    const date = new Date();
+    if (value === 'today') {
+        return formatDate(date);
+    }
+
+    if (value === 'tomorrow') {
+        date.setDate(date.getDate() + 1);
+        return formatDate(date);
+    }
+
+    const relative = /^\+(\d{1,3})d$/.exec(value);
+    if (relative) {
+        date.setDate(date.getDate() + parseInt(relative[1], 10));
+        return formatDate(date);
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        const [year, month, day] = value.split('-').map((part) => parseInt(part, 10));
+        const parsed = new Date(year, month - 1, day);
+        if (parsed.getFullYear() === year && parsed.getMonth() === month - 1 && parsed.getDate() === day) {
+            return value;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Whether a YYYY-MM-DD due date lies before today
+ */
+export function isOverdue(dueOn?: string | null): boolean {
+    return !!dueOn && dueOn < formatDate(new Date());
+}
+
+/**
+ * Format a due date for task lists: " - Due: **Today**", " - Due: **Tomorrow**" or " - Due: <date>"
+ */
+export function formatDueInfo(dueOn?: string | null): string {
+    if (!dueOn) {
+        return '';
+    }
+
+    const dueDate = new Date(dueOn);
+    const today = new Date();
+    const tomorrow = new Date(today);
+    tomorrow.setDate(today.getDate() + 1);
+
+    // Check if due today or tomorrow
+    if (dueDate.toDateString() === today.toDateString()) {
+        return ' - Due: **Today**';
+    } else if (dueDate.toDateString() === tomorrow.toDateString()) {
+        return ' - Due: **Tomorrow**';
+    }
+
+    return ` - Due: ${dueDate.toLocaleDateString()}`;
+}
@@ -0,0 +1,43 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+
+// changes listed in the footer of a live card
+const HISTORY_LENGTH = 5;
+
+/**
+ * The one message showing a task in a room in live card mode, and the latest changes it lists
+ */
+export interface ILiveCard {
+    roomId: string;
+    taskId: string;
+    messageId: string;
+    // newest first
+    history: Array<{ text: string; at: string }>;
+}
+
+function getCardAssociation(roomId: string, taskId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `live_card_${roomId}_${taskId}`);
+}
+
+export async function getLiveCard(read: IRead, roomId: string, taskId: string): Promise<ILiveCard | undefined> {
+    const [card] = await read.getPersistenceReader().readByAssociation(getCardAssociation(roomId, taskId)) as [ILiveCard | undefined];
+    return card;
+}
+
+export async function saveLiveCard(persis: IPersistence, card: ILiveCard): Promise<void> {
+    await persis.updateByAssociation(getCardAssociation(card.roomId, card.taskId), card, true);
+}
+
+/**
+ * @returns the history with the change added in front, and the oldest changes dropped
+ */
+export function addCardHistory(history: Array<{ text: string; at: string }>, text: string): Array<{ text: string; at: string }> {
+    return [{ text, at: new Date().toISOString() }, ...history].slice(0, HISTORY_LENGTH);
+}
+
+/**
+ * The footer of a live card, one line per change
+ */
+export function formatCardHistory(history: Array<{ text: string; at: string }>): string {
+    return history.map((entry) => `• ${entry.text} _(${entry.at.slice(0, 16).replace('T', ' ')} UTC)_`).join('\n');
+}
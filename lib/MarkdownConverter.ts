@@ -0,0 +1,37 @@
+/**
+ * Convert Rocket.Chat markdown to the HTML subset Asana accepts in `html_text`.
+ * Supports bold, italic, strikethrough, inline code, code blocks, markdown links and bare URLs;
+ * everything else is escaped and sent as plain text.
+ */
+export function markdownToAsanaHtml(markdown: string): string {
+    // code and links are swapped for placeholders so their content is left alone by the emphasis rules
+    const placeholders: Array<string> = [];
+    const hold = (html: string): string => {
+        placeholders.push(html);
+        return `\u0000${placeholders.length - 1}\u0000`;
+    };
+
+    let text = (markdown || '').replace(/```(?:[^\n`]*\n)?([\s\S]*?)```/g, (match, code) => hold(`<pre>${escapeHtml(code.replace(/\n$/, ''))}</pre>`));
+    text = text.replace(/`([^`\n]+)`/g, (match, code) => hold(`<code>${escapeHtml(code)}</code>`));
+    text = text.replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (match, label, url) => hold(`<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`));
+    text = text.replace(/<(https?:\/\/[^|>\s]+)\|([^>\n]+)>/g, (match, url, label) => hold(`<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`));
+    text = text.replace(/https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/g, (url) => hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+
+    text = escapeHtml(text)
+        .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+        .replace(/\*([^*\n]+)\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^\w])_([^_\n]+)_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~?([^~\n]+)~~?/g, '<s>$1</s>');
+
+    text = text.replace(/\u0000(\d+)\u0000/g, (match, index) => placeholders[parseInt(index, 10)]);
+
+    return `<body>${text}</body>`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
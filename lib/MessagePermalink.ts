@@ -0,0 +1,29 @@
+import { IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { IRoom, RoomType } from '@rocket.chat/apps-engine/definition/rooms';
+
+/**
+ * Build the Rocket.Chat permalink of a message, or an empty string if Site_Url is not configured
+ */
+export async function getMessagePermalink(read: IRead, room: IRoom, messageId: string): Promise<string> {
+    const siteUrl = await read.getEnvironmentReader().getServerSettings().getValueById('Site_Url');
+    if (!siteUrl) {
+        return '';
+    }
+
+    let roomPath: string;
+    switch (room.type) {
+        case RoomType.PRIVATE_GROUP:
+            roomPath = `group/${room.slugifiedName}`;
+            break;
+        case RoomType.DIRECT_MESSAGE:
+            roomPath = `direct/${room.id}`;
+            break;
+        case RoomType.LIVE_CHAT:
+            roomPath = `live/${room.id}`;
+            break;
+        default:
+            roomPath = `channel/${room.slugifiedName}`;
+    }
+
+    return `${siteUrl.replace(/\/$/, '')}/${roomPath}?msg=${messageId}`;
+}
@@ -0,0 +1,75 @@
+import { IHttpRequest } from '@rocket.chat/apps-engine/definition/accessors';
+import * as crypto from 'crypto';
+
+/**
+ * A file sent in a multipart/form-data request
+ */
+export interface IMultipartFile {
+    name: string;
+    // MIME type of the content
+    type: string;
+    content: Buffer;
+}
+
+export interface IMultipartForm {
+    body: Buffer;
+    // multipart/form-data, with the boundary of the body
+    contentType: string;
+}
+
+/**
+ * Request options with a binary body.
+ * IHttpRequest types `content` as a string, but it is handed to the request unchanged,
+ * and a Buffer keeps the file bytes intact where a string would be re-encoded as UTF-8.
+ */
+export interface IBinaryHttpRequest extends Omit<IHttpRequest, 'content'> {
+    content: Buffer;
+}
+
+/**
+ * Build a multipart/form-data body from text fields and one file
+ * @param fileField Name of the form field holding the file
+ * @returns the body, and the Content-Type header naming its boundary
+ */
+export function buildMultipartForm(fields: { [name: string]: string }, fileField: string, file: IMultipartFile): IMultipartForm {
+    const boundary = `----AsanaBridge${crypto.randomBytes(12).toString('hex')}`;
+    const parts: Array<Buffer> = [];
+
+    Object.entries(fields).forEach(([name, value]) => {
+        parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`));
+    });
+
+    parts.push(Buffer.from(
+        `--${boundary}\r\n`
+        + `Content-Disposition: form-data; name="${fileField}"; filename="${escapeFileName(file.name)}"\r\n`
+        + `Content-Type: ${file.type || 'application/octet-stream'}\r\n\r\n`,
+    ));
+    parts.push(file.content);
+    parts.push(Buffer.from(`\r\n--${boundary}--\r\n`));
+
+    return {
+        body: Buffer.concat(parts),
+        contentType: `multipart/form-data; boundary=${boundary}`,
+    };
+}
+
+/**
+ * Request options posting the form, with its Content-Type added to the headers of the request
+ */
+export function createMultipartRequest(form: IMultipartForm, request: IHttpRequest = {}): IHttpRequest {
+    const binaryRequest: IBinaryHttpRequest = {
+        ...request,
+        headers: { ...request.headers, 'Content-Type': form.contentType },
+        content: form.body,
+    };
+    // only the declared type of content is widened, IHttp passes the Buffer on as it is
+    const withoutContent: Omit<IHttpRequest, 'content'> = binaryRequest;
+    return withoutContent as IHttpRequest;
+}
+
+/**
+ * keep a file name from breaking out of its quoted header value
+ */
+function escapeFileName(name: string): string {
+    return name.replace(/[\r\n]/g, ' ').replace(/"/g, '%22');
+}
@@ -0,0 +1,242 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { IAsanaResource, IAsanaTask } from './AsanaModels';
+import { ICustomFieldFilter, matchesCustomFieldFilters, parseCustomFieldFilters } from './CustomFields';
+
+/**
+ * Kinds of events a room can pick, derived from the action and changed field of an Asana event
+ */
+export const NOTIFICATION_EVENT_TYPES = ['added', 'completed', 'reopened', 'assigned', 'due', 'moved', 'commented', 'changed', 'removed'];
+
+/**
+ * What a room wants to be notified about, set with `/asana notify set`.
+ * Every condition that is set must hold, a list condition holds when one of its values does.
+ */
+export interface INotificationFilter {
+    events?: Array<string>;
+    // Asana field names of `changed` events, e.g. name, notes, due_on
+    fields?: Array<string>;
+    // gid and name of the Asana user, or the name "none" for unassigned tasks
+    assignee?: { gid?: string; name: string };
+    // section name or ID
+    section?: string;
+    // tag name or ID
+    tag?: string;
+    customFields?: Array<ICustomFieldFilter>;
+    updatedBy?: string;
+    updatedAt?: string;
+}
+
+/**
+ * The parts of an Asana event the filter looks at
+ */
+export interface IFilterableEvent {
+    action: string;
+    resource: { resource_type: string };
+    parent?: { resource_type: string } | null;
+    change?: { field?: string } | null;
+}
+
+function getRoomAssociation(roomId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `notify_room_${roomId}`);
+}
+
+export async function getNotificationFilter(read: IRead, roomId: string): Promise<INotificationFilter | undefined> {
+    const [filter] = await read.getPersistenceReader().readByAssociation(getRoomAssociation(roomId)) as [INotificationFilter | undefined];
+    return filter;
+}
+
+export async function saveNotificationFilter(persis: IPersistence, roomId: string, filter: INotificationFilter): Promise<void> {
+    await persis.updateByAssociation(getRoomAssociation(roomId), filter, true);
+}
+
+export async function clearNotificationFilter(persis: IPersistence, roomId: string): Promise<void> {
+    await persis.removeByAssociation(getRoomAssociation(roomId));
+}
+
+/**
+ * Parse the flags of `/asana notify set`: --events, --fields, --assignee, --section, --tag and --field Name=Value.
+ * Values run until the next flag, so names may contain spaces. The assignee is kept as typed, for the caller to resolve.
+ * @returns the filter, and a message per flag that could not be understood
+ */
+export function parseNotificationFilter(params: Array<string>): { filter: INotificationFilter; errors: Array<string> } {
+    const { filters: customFields, rest, invalid } = parseCustomFieldFilters(params);
+    const filter: INotificationFilter = {};
+    const errors = invalid.map((expression) => `\`--field ${expression}\` is not of the form Name=Value`);
+
+    for (let i = 0; i < rest.length; i++) {
+        const flag = rest[i].toLowerCase();
+        const words: Array<string> = [];
+        while (i + 1 < rest.length && !rest[i + 1].startsWith('--')) {
+            words.push(rest[++i]);
+        }
+        const value = words.join(' ').trim();
+
+        if (!value) {
+            errors.push(`\`${flag}\` needs a value`);
+            continue;
+        }
+
+        switch (flag) {
+            case '--events': {
+                const events = splitList(value);
+                const unknown = events.filter((event) => NOTIFICATION_EVENT_TYPES.indexOf(event) === -1);
+                if (unknown.length > 0) {
+                    errors.push(`Unknown event type ${unknown.join(', ')}, use ${NOTIFICATION_EVENT_TYPES.join(', ')}`);
+                } else {
+                    filter.events = events;
+                }
+                break;
+            }
+            case '--fields':
+                filter.fields = splitList(value);
+                break;
+            case '--assignee':
+                filter.assignee = { name: value.replace(/^@/, '') };
+                break;
+            case '--section':
+                filter.section = value;
+                break;
+            case '--tag':
+                filter.tag = value;
+                break;
+            default:
+                errors.push(`Unknown option \`${flag}\``);
+        }
+    }
+
+    if (customFields.length > 0) {
+        filter.customFields = customFields;
+    }
+
+    return { filter, errors };
+}
+
+/**
+ * @returns whether the filter has a condition on the task, rather than only on the event
+ */
+export function needsTask(filter: INotificationFilter): boolean {
+    return !!(filter.assignee || filter.section || filter.tag || (filter.customFields && filter.customFields.length > 0));
+}
+
+/**
+ * The kind of an event, one of NOTIFICATION_EVENT_TYPES
+ * @param task The task after the event, tells a completion from a reopening
+ */
+export function getNotificationEventType(event: IFilterableEvent, task?: IAsanaTask | null): string {
+    if (event.resource.resource_type === 'story') {
+        return event.action === 'added' ? 'commented' : 'changed';
+    }
+
+    switch (event.action) {
+        case 'added':
+            // a task added to a section was moved there
+            return event.parent && event.parent.resource_type === 'section' ? 'moved' : 'added';
+        case 'removed':
+        case 'deleted':
+            return 'removed';
+        case 'completed':
+        case 'assigned':
+        case 'due':
+            return event.action;
+        case 'uncompleted':
+            return 'reopened';
+        case 'changed':
+            break;
+        default:
+            return 'changed';
+    }
+
+    switch (event.change && event.change.field) {
+        case 'completed':
+            return task && !task.completed ? 'reopened' : 'completed';
+        case 'assignee':
+            return 'assigned';
+        case 'due_on':
+        case 'due_at':
+            return 'due';
+        default:
+            return 'changed';
+    }
+}
+
+/**
+ * Whether a room with the filter wants the event
+ * @param task The task the event is about, needed when needsTask(filter)
+ */
+export function matchesNotificationFilter(filter: INotificationFilter, event: IFilterableEvent, task?: IAsanaTask | null): boolean {
+    if (filter.events && filter.events.length > 0 && filter.events.indexOf(getNotificationEventType(event, task)) === -1) {
+        return false;
+    }
+
+    if (filter.fields && filter.fields.length > 0) {
+        const field = event.change && event.change.field;
+        if (!field || filter.fields.indexOf(field.toLowerCase()) === -1) {
+            return false;
+        }
+    }
+
+    if (!needsTask(filter)) {
+        return true;
+    }
+    if (!task) {
+        return false;
+    }
+
+    if (filter.assignee && !matchesAssignee(filter.assignee, task.assignee)) {
+        return false;
+    }
+
+    const sections = (task.memberships || []).map((membership) => membership.section).filter((section): section is IAsanaResource => !!section);
+    if (filter.section && !sections.some((section) => matchesResource(filter.section as string, section))) {
+        return false;
+    }
+
+    if (filter.tag && !(task.tags || []).some((tag) => matchesResource(filter.tag as string, tag))) {
+        return false;
+    }
+
+    return !filter.customFields || matchesCustomFieldFilters(task, filter.customFields);
+}
+
+/**
+ * Describe a filter for `/asana notify show`
+ */
+export function formatNotificationFilter(filter: INotificationFilter): Array<string> {
+    const lines: Array<string> = [];
+    if (filter.events && filter.events.length > 0) {
+        lines.push(`**Events:** ${filter.events.join(', ')}`);
+    }
+    if (filter.fields && filter.fields.length > 0) {
+        lines.push(`**Changed fields:** ${filter.fields.join(', ')}`);
+    }
+    if (filter.assignee) {
+        lines.push(`**Assignee:** ${filter.assignee.name}`);
+    }
+    if (filter.section) {
+        lines.push(`**Section:** ${filter.section}`);
+    }
+    if (filter.tag) {
+        lines.push(`**Tag:** ${filter.tag}`);
+    }
+    (filter.customFields || []).forEach((field) => lines.push(`**${field.name}:** ${field.value}`));
+    return lines;
+}
+
+function splitList(value: string): Array<string> {
+    return value.split(',').map((item) => item.trim().toLowerCase()).filter((item) => !!item);
+}
+
+function matchesAssignee(expected: { gid?: string; name: string }, assignee?: IAsanaResource | null): boolean {
+    if (expected.name.toLowerCase() === 'none') {
+        return !assignee;
+    }
+    if (!assignee) {
+        return false;
+    }
+    return expected.gid ? assignee.gid === expected.gid : matchesResource(expected.name, assignee);
+}
+
+function matchesResource(expected: string, resource: IAsanaResource): boolean {
+    return resource.gid === expected || (!!resource.name && resource.name.toLowerCase() === expected.toLowerCase());
+}
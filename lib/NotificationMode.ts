@@ -0,0 +1,52 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { AppSetting } from '../settings/Settings';
+
+/**
+ * How task notifications are posted in a room
+ */
+export enum NotificationMode {
+    // a new message per event
+    Messages = 'messages',
+    // the first message about a task starts a thread, later ones reply in it
+    Threads = 'threads',
+    // one message per task, edited on every event
+    LiveCards = 'live',
+}
+
+function getRoomAssociation(roomId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `notify_mode_room_${roomId}`);
+}
+
+export function isNotificationMode(value: string): value is NotificationMode {
+    return Object.values(NotificationMode).indexOf(value as NotificationMode) !== -1;
+}
+
+/**
+ * The room's own mode if it picked one with `/asana notify mode`
+ */
+export async function getRoomNotificationMode(read: IRead, roomId: string): Promise<NotificationMode | undefined> {
+    const [choice] = await read.getPersistenceReader().readByAssociation(getRoomAssociation(roomId)) as [{ mode: NotificationMode } | undefined];
+    return choice && choice.mode;
+}
+
+/**
+ * The mode of a room: its own choice, else the NotificationMode setting
+ */
+export async function getNotificationMode(read: IRead, roomId: string): Promise<NotificationMode> {
+    const roomMode = await getRoomNotificationMode(read, roomId);
+    if (roomMode) {
+        return roomMode;
+    }
+
+    const setting = String(await read.getEnvironmentReader().getSettings().getValueById(AppSetting.NotificationMode));
+    return isNotificationMode(setting) ? setting : NotificationMode.Messages;
+}
+
+export async function saveRoomNotificationMode(persis: IPersistence, roomId: string, mode: NotificationMode): Promise<void> {
+    await persis.updateByAssociation(getRoomAssociation(roomId), { mode }, true);
+}
+
+export async function clearRoomNotificationMode(persis: IPersistence, roomId: string): Promise<void> {
+    await persis.removeByAssociation(getRoomAssociation(roomId));
+}
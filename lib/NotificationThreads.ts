@@ -0,0 +1,38 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { AppSetting } from '../settings/Settings';
+
+/**
+ * The message that started the notification thread of a task in a room
+ */
+export interface ITaskThread {
+    roomId: string;
+    taskId: string;
+    messageId: string;
+    createdAt: string;
+}
+
+function getThreadAssociation(roomId: string, taskId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `notify_thread_${roomId}_${taskId}`);
+}
+
+/**
+ * @returns the ID of the thread's first message, or undefined if the task has no thread in the room yet
+ */
+export async function getTaskThread(read: IRead, roomId: string, taskId: string): Promise<string | undefined> {
+    const [thread] = await read.getPersistenceReader().readByAssociation(getThreadAssociation(roomId, taskId)) as [ITaskThread | undefined];
+    return thread && thread.messageId;
+}
+
+export async function saveTaskThread(persis: IPersistence, roomId: string, taskId: string, messageId: string): Promise<void> {
+    const thread: ITaskThread = { roomId, taskId, messageId, createdAt: new Date().toISOString() };
+    await persis.updateByAssociation(getThreadAssociation(roomId, taskId), thread, true);
+}
+
+/**
+ * @returns the event types whose thread replies are also posted in the channel
+ */
+export async function getBroadcastEventTypes(read: IRead): Promise<Array<string>> {
+    const value = await read.getEnvironmentReader().getSettings().getValueById(AppSetting.ThreadBroadcastEvents);
+    return String(value || '').split(',').map((type) => type.trim().toLowerCase()).filter((type) => !!type);
+}
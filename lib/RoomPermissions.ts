@@ -0,0 +1,24 @@
+import { IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { IRoom, RoomType } from '@rocket.chat/apps-engine/definition/rooms';
+import { IUser } from '@rocket.chat/apps-engine/definition/users';
+
+/**
+ * Whether the user may change what the room gets from Asana: its workspace, webhooks and notification settings.
+ * Allowed for Rocket.Chat admins, the room's creator, owners and moderators, and both sides of a direct message.
+ */
+export async function canManageRoom(read: IRead, room: IRoom, user: IUser): Promise<boolean> {
+    if ((user.roles || []).indexOf('admin') !== -1) {
+        return true;
+    }
+    if (room.type === RoomType.DIRECT_MESSAGE || (room.creator && room.creator.id === user.id)) {
+        return true;
+    }
+
+    const roomReader = read.getRoomReader();
+    const owners = await roomReader.getOwners(room.id);
+    if (owners.some((owner) => owner.id === user.id)) {
+        return true;
+    }
+    const moderators = await roomReader.getModerators(room.id);
+    return moderators.some((moderator) => moderator.id === user.id);
+}
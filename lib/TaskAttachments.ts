@@ -0,0 +1,50 @@
+import { IHttp, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { IMessageFile } from '@rocket.chat/apps-engine/definition/messages';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import { AsanaApiService } from './AsanaApiService';
+import { IAsanaAttachment } from './AsanaModels';
+import { markdownToAsanaHtml } from './MarkdownConverter';
+import { getMessagePermalink } from './MessagePermalink';
+
+// the largest file Asana accepts as an attachment
+const MAX_ATTACHMENT_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Upload the file of a chat message to an Asana task, and comment on the task with a link back to the message
+ */
+export async function attachMessageFile(
+    apiService: AsanaApiService,
+    accessToken: string,
+    read: IRead,
+    room: IRoom,
+    message: { id?: string; file?: IMessageFile },
+    taskId: string,
+    http: IHttp,
+): Promise<IAsanaAttachment> {
+    if (!message.file) {
+        throw new Error('This message has no file to attach.');
+    }
+
+    const uploadReader = read.getUploadReader();
+    const upload = await uploadReader.getById(message.file._id);
+    if (!upload) {
+        throw new Error(`The file ${message.file.name} is no longer available in Rocket.Chat.`);
+    }
+
+    if (parseInt(upload.size, 10) > MAX_ATTACHMENT_BYTES) {
+        throw new Error(`${upload.name} is larger than the 100 MB Asana accepts for attachments.`);
+    }
+
+    const content = await uploadReader.getBuffer(upload);
+    const attachment = await apiService.uploadAttachment(accessToken, taskId, {
+        name: upload.name,
+        type: upload.type,
+        content,
+    }, http);
+
+    const permalink = message.id ? await getMessagePermalink(read, room, message.id) : '';
+    const source = permalink ? `[Rocket.Chat](${permalink})` : 'Rocket.Chat';
+    await apiService.addComment(accessToken, taskId, markdownToAsanaHtml(`📎 \`${attachment.name}\` was attached from ${source}`), http);
+
+    return attachment;
+}
@@ -0,0 +1,178 @@
+import { IModify, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { IMessageAttachment } from '@rocket.chat/apps-engine/definition/messages';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import { BlockBuilder } from '@rocket.chat/apps-engine/definition/uikit';
+import { IAsanaTask } from './AsanaModels';
+import { getCustomFieldValues } from './CustomFields';
+
+/**
+ * Action IDs of the buttons on task notification cards, the button value is the task gid
+ */
+export enum TaskCardAction {
+    Complete = 'asana_task_complete',
+    AssignToMe = 'asana_task_assign_me',
+    Comment = 'asana_task_comment',
+    ChangeDueDate = 'asana_task_change_due_date',
+    // the value is the gid of the subtask to check off
+    CompleteSubtask = 'asana_subtask_complete',
+}
+
+/**
+ * Build the Asana deep link for a task, preferring the permalink Asana returns
+ */
+export function getTaskLink(task: { gid: string; permalink_url?: string; projects?: Array<{ gid: string }> }): string {
+    if (task.permalink_url) {
+        return task.permalink_url;
+    }
+
+    const projectId = task.projects && task.projects.length > 0 ? task.projects[0].gid : '0';
+    return `https://app.asana.com/0/${projectId}/${task.gid}`;
+}
+
+/**
+ * Read a task gid from what a user typed: the gid itself or a link to the task
+ * @returns undefined if there is no task gid in the input
+ */
+export function parseTaskReference(input: string): string | undefined {
+    const value = (input || '').trim();
+    if (/^\d+$/.test(value)) {
+        return value;
+    }
+
+    // in both /0/<project>/<task> and /1/<workspace>/project/<project>/task/<task> links the task comes last
+    const gids = /^https?:\/\/app\.asana\.com\//.test(value) ? value.split(/[?#]/)[0].match(/\d+/g) : null;
+    return gids ? gids[gids.length - 1] : undefined;
+}
+
+/**
+ * Build a message attachment summarising a task
+ */
+export function buildTaskCard(task: IAsanaTask, text: string, color: string = '#36a64f'): IMessageAttachment {
+    const fields = [
+        {
+            short: true,
+            title: 'status',
+            value: task.completed ? 'completed' : 'in progress',
+        },
+        {
+            short: true,
+            title: 'due date',
+            value: task.due_on || 'no due date',
+        },
+        {
+            short: true,
+            title: 'assignee',
+            value: task.assignee && task.assignee.name ? task.assignee.name : 'no assignee',
+        },
+    ];
+
+    if (task.projects && task.projects.length > 0) {
+        fields.push({
+            short: true,
+            title: 'project',
+            value: task.projects.map((project) => project.name || project.gid).join(', '),
+        });
+    }
+
+    const sections = (task.memberships || [])
+        .filter((membership) => membership.section && membership.section.name)
+        .map((membership) => membership.section!.name);
+    if (sections.length > 0) {
+        fields.push({
+            short: true,
+            title: 'section',
+            value: sections.join(', '),
+        });
+    }
+
+    getCustomFieldValues(task).forEach((field) => {
+        fields.push({
+            short: true,
+            title: field.name,
+            value: field.value,
+        });
+    });
+
+    return {
+        color,
+        title: {
+            value: task.name,
+            link: getTaskLink(task),
+        },
+        text,
+        fields,
+    };
+}
+
+/**
+ * Add the task action buttons shown under task notifications
+ */
+export function addTaskActionsBlock(block: BlockBuilder, taskId: string): BlockBuilder {
+    return block.addActionsBlock({
+        blockId: `asana_task_actions_${taskId}`,
+        elements: [
+            block.newButtonElement({
+                actionId: TaskCardAction.Complete,
+                text: block.newPlainTextObject('Mark complete'),
+                value: taskId,
+            }),
+            block.newButtonElement({
+                actionId: TaskCardAction.AssignToMe,
+                text: block.newPlainTextObject('Assign to me'),
+                value: taskId,
+            }),
+            block.newButtonElement({
+                actionId: TaskCardAction.Comment,
+                text: block.newPlainTextObject('Comment'),
+                value: taskId,
+            }),
+            block.newButtonElement({
+                actionId: TaskCardAction.ChangeDueDate,
+                text: block.newPlainTextObject('Change due date'),
+                value: taskId,
+            }),
+        ],
+    });
+}
+
+/**
+ * Add a subtask checklist, every open subtask gets a "Done" button
+ */
+export function addSubtaskChecklistBlocks(block: BlockBuilder, subtasks: Array<IAsanaTask>): BlockBuilder {
+    subtasks.forEach((subtask) => {
+        const text = subtask.completed ? `☑️ ~${subtask.name}~` : `⬜ ${subtask.name}`;
+        block.addSectionBlock({
+            blockId: `asana_subtask_${subtask.gid}`,
+            text: block.newMarkdownTextObject(text),
+            accessory: subtask.completed ? undefined : block.newButtonElement({
+                actionId: TaskCardAction.CompleteSubtask,
+                text: block.newPlainTextObject('Done'),
+                value: subtask.gid,
+            }),
+        });
+    });
+
+    return block;
+}
+
+/**
+ * Post a task card to a room as the app user, optionally as a thread reply
+ */
+export async function sendTaskCard(read: IRead, modify: IModify, room: IRoom, text: string, card: IMessageAttachment, threadId?: string): Promise<string | undefined> {
+    const appUser = await read.getUserReader().getAppUser();
+    if (!appUser) {
+        return undefined;
+    }
+
+    const messageBuilder = modify.getCreator().startMessage()
+        .setRoom(room)
+        .setSender(appUser)
+        .setText(text)
+        .addAttachment(card);
+
+    if (threadId) {
+        messageBuilder.setThreadId(threadId);
+    }
+
+    return await modify.getCreator().finish(messageBuilder);
+}
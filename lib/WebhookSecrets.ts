@@ -0,0 +1,121 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import * as crypto from 'crypto';
+
+// query parameter of the webhook target URL that tells which webhook a request belongs to
+export const WEBHOOK_KEY_PARAM = 'hook';
+
+// a key announced longer ago than this accepts no handshake, the create call it was made for is over
+const PENDING_KEY_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * The X-Hook-Secret of one webhook.
+ * Asana sends the handshake before the create call returns the webhook gid, so the target URL carries
+ * a random key: the secret is stored against the key first, and linked to the webhook gid once it is known.
+ */
+export interface IWebhookSecret {
+    key: string;
+    // undefined until the handshake arrived
+    secret?: string;
+    // undefined until the webhook is created
+    webhookId?: string;
+    createdAt: string;
+}
+
+function getKeyAssociation(key: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `webhook_secret_key_${key}`);
+}
+
+function getWebhookAssociation(webhookId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `webhook_secret_${webhookId}`);
+}
+
+async function readSecret(read: IRead, association: RocketChatAssociationRecord): Promise<IWebhookSecret | undefined> {
+    const [record] = await read.getPersistenceReader().readByAssociation(association) as [IWebhookSecret | undefined];
+    return record;
+}
+
+export function createWebhookKey(): string {
+    return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Target URL for a new webhook, tagged with its key
+ * @param endpointUrl URL of the app's webhook endpoint
+ */
+export function getWebhookTarget(endpointUrl: string, key: string): string {
+    return `${endpointUrl}?${WEBHOOK_KEY_PARAM}=${encodeURIComponent(key)}`;
+}
+
+/**
+ * Announce a webhook about to be created, only announced keys accept a handshake
+ */
+export async function registerPendingWebhook(persis: IPersistence, key: string): Promise<void> {
+    const record: IWebhookSecret = { key, createdAt: new Date().toISOString() };
+    await persis.createWithAssociation(record, getKeyAssociation(key));
+}
+
+/**
+ * Store the secret of a handshake
+ * @returns false if the key was not announced, or already has a secret, so a forged handshake cannot replace it
+ */
+export async function saveHandshakeSecret(read: IRead, persis: IPersistence, key: string, secret: string): Promise<boolean> {
+    const record = await readSecret(read, getKeyAssociation(key));
+    if (!record || record.secret || Date.now() - new Date(record.createdAt).getTime() > PENDING_KEY_TTL_MS) {
+        return false;
+    }
+
+    await persis.updateByAssociation(getKeyAssociation(key), { ...record, secret });
+    return true;
+}
+
+/**
+ * Link the secret of a key to the webhook Asana created for it
+ * @returns false if no handshake arrived for the key
+ */
+export async function linkWebhookSecret(read: IRead, persis: IPersistence, key: string, webhookId: string): Promise<boolean> {
+    const record = await readSecret(read, getKeyAssociation(key));
+    if (!record || !record.secret) {
+        return false;
+    }
+
+    await persis.removeByAssociation(getKeyAssociation(key));
+    await persis.createWithAssociations({ ...record, webhookId }, [getKeyAssociation(key), getWebhookAssociation(webhookId)]);
+    return true;
+}
+
+export async function getWebhookSecretByKey(read: IRead, key: string): Promise<IWebhookSecret | undefined> {
+    return readSecret(read, getKeyAssociation(key));
+}
+
+export async function getWebhookSecret(read: IRead, webhookId: string): Promise<IWebhookSecret | undefined> {
+    return readSecret(read, getWebhookAssociation(webhookId));
+}
+
+export async function removeWebhookSecret(persis: IPersistence, webhookId: string): Promise<void> {
+    await persis.removeByAssociation(getWebhookAssociation(webhookId));
+}
+
+/**
+ * drop a key whose webhook was never created or could not be linked to its secret
+ */
+export async function removePendingWebhook(persis: IPersistence, key: string): Promise<void> {
+    await persis.removeByAssociation(getKeyAssociation(key));
+}
+
+/**
+ * Whether a signature is the HMAC-SHA256 of the payload under the secret, compared in constant time
+ */
+export function isValidSignature(secret: string, payload: string, signature: string): boolean {
+    const expected = crypto.createHmac('sha256', secret).update(payload).digest();
+    const given = Buffer.from(signature, 'hex');
+    // timingSafeEqual throws on different lengths, and the length of a hex digest is no secret
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Whether a webhook was created with a key in its target URL, and so has a secret of its own
+ */
+export function hasWebhookKey(target?: string): boolean {
+    return !!target && new RegExp(`[?&]${WEBHOOK_KEY_PARAM}=`).test(target);
+}
@@ -0,0 +1,63 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+
+/**
+ * A room receiving the events of an Asana resource.
+ * A resource has one webhook in Asana, shared by all rooms subscribed to it.
+ */
+export interface IWebhookSubscription {
+    // the Asana webhook delivering the events of the resource
+    webhookId: string;
+    // project or workspace ID
+    resourceId: string;
+    roomId: string;
+    // user ID of who subscribed the room
+    createdBy?: string;
+    createdAt: string;
+    // whether the configuration is automatically created
+    autoCreated?: boolean;
+}
+
+function getResourceAssociation(resourceId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `resource_${resourceId}`);
+}
+
+export async function getSubscriptions(read: IRead, resourceId: string): Promise<Array<IWebhookSubscription>> {
+    return await read.getPersistenceReader().readByAssociation(getResourceAssociation(resourceId)) as Array<IWebhookSubscription>;
+}
+
+export async function addSubscription(persis: IPersistence, subscription: IWebhookSubscription): Promise<void> {
+    await persis.createWithAssociation(subscription, getResourceAssociation(subscription.resourceId));
+}
+
+/**
+ * Stop sending the events of a resource to a room
+ * @returns the subscriptions of the other rooms
+ */
+export async function removeRoomSubscription(read: IRead, persis: IPersistence, resourceId: string, roomId: string): Promise<Array<IWebhookSubscription>> {
+    // the records share their association, so rewrite the ones to keep
+    const remaining = (await getSubscriptions(read, resourceId)).filter((subscription) => subscription.roomId !== roomId);
+    await replaceSubscriptions(persis, resourceId, remaining);
+    return remaining;
+}
+
+export async function removeSubscriptions(persis: IPersistence, resourceId: string): Promise<void> {
+    await persis.removeByAssociation(getResourceAssociation(resourceId));
+}
+
+/**
+ * Point all subscriptions of a resource to a new webhook
+ * @returns the updated subscriptions
+ */
+export async function setSubscriptionsWebhook(read: IRead, persis: IPersistence, resourceId: string, webhookId: string): Promise<Array<IWebhookSubscription>> {
+    const subscriptions = (await getSubscriptions(read, resourceId)).map((subscription) => ({ ...subscription, webhookId }));
+    await replaceSubscriptions(persis, resourceId, subscriptions);
+    return subscriptions;
+}
+
+async function replaceSubscriptions(persis: IPersistence, resourceId: string, subscriptions: Array<IWebhookSubscription>): Promise<void> {
+    await removeSubscriptions(persis, resourceId);
+    for (const subscription of subscriptions) {
+        await addSubscription(persis, subscription);
+    }
+}
@@ -0,0 +1,83 @@
+import { IHttp, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { IRoom } from '@rocket.chat/apps-engine/definition/rooms';
+import { IUser } from '@rocket.chat/apps-engine/definition/users';
+import { AppSetting } from '../settings/Settings';
+import { AsanaApiService } from './AsanaApiService';
+
+/**
+ * Workspace picked with `/asana workspace use`, stored per user or per room
+ */
+export interface IWorkspaceChoice {
+    workspaceId: string;
+    workspaceName?: string;
+}
+
+function getUserAssociation(userId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `workspace_user_${userId}`);
+}
+
+function getRoomAssociation(roomId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `workspace_room_${roomId}`);
+}
+
+async function readChoice(read: IRead, association: RocketChatAssociationRecord): Promise<IWorkspaceChoice | undefined> {
+    const [choice] = await read.getPersistenceReader().readByAssociation(association) as [IWorkspaceChoice | undefined];
+    return choice;
+}
+
+export async function getUserWorkspace(read: IRead, userId: string): Promise<IWorkspaceChoice | undefined> {
+    return readChoice(read, getUserAssociation(userId));
+}
+
+export async function saveUserWorkspace(persis: IPersistence, userId: string, choice: IWorkspaceChoice): Promise<void> {
+    await persis.updateByAssociation(getUserAssociation(userId), choice, true);
+}
+
+export async function clearUserWorkspace(persis: IPersistence, userId: string): Promise<void> {
+    await persis.removeByAssociation(getUserAssociation(userId));
+}
+
+export async function getRoomWorkspace(read: IRead, roomId: string): Promise<IWorkspaceChoice | undefined> {
+    return readChoice(read, getRoomAssociation(roomId));
+}
+
+export async function saveRoomWorkspace(persis: IPersistence, roomId: string, choice: IWorkspaceChoice): Promise<void> {
+    await persis.updateByAssociation(getRoomAssociation(roomId), choice, true);
+}
+
+export async function clearRoomWorkspace(persis: IPersistence, roomId: string): Promise<void> {
+    await persis.removeByAssociation(getRoomAssociation(roomId));
+}
+
+/**
+ * Workspace to use when none is given, in order: the user's choice, the room default,
+ * the DefaultWorkspace setting, else the user's first workspace.
+ * A choice is skipped when the user is not a member of that workspace.
+ */
+export async function resolveWorkspaceId(
+    apiService: AsanaApiService,
+    accessToken: string,
+    read: IRead,
+    http: IHttp,
+    user: IUser,
+    room?: IRoom,
+): Promise<string | undefined> {
+    const userChoice = await getUserWorkspace(read, user.id);
+    const roomChoice = room ? await getRoomWorkspace(read, room.id) : undefined;
+    const defaultWorkspace = await read.getEnvironmentReader().getSettings().getValueById(AppSetting.DefaultWorkspace);
+
+    const candidates = [
+        userChoice && userChoice.workspaceId,
+        roomChoice && roomChoice.workspaceId,
+        defaultWorkspace ? String(defaultWorkspace).trim() : undefined,
+    ].filter((workspaceId): workspaceId is string => !!workspaceId);
+
+    const workspaces = await apiService.getWorkspaces(accessToken, http);
+    if (workspaces.length === 0) {
+        return undefined;
+    }
+
+    const memberOf = candidates.find((workspaceId) => workspaces.some((workspace) => workspace.gid === workspaceId));
+    return memberOf || workspaces[0].gid;
+}
@@ -0,0 +1,64 @@
+import { IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { IMessageFile } from '@rocket.chat/apps-engine/definition/messages';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { IUIKitModalViewParam } from '@rocket.chat/apps-engine/definition/uikit/UIKitInteractionResponder';
+
+export const ATTACH_FILE_MODAL_ID = 'asana_attach_file';
+
+/**
+ * Action IDs of the attach file modal, also used as block IDs
+ */
+export enum AttachFileAction {
+    Task = 'attach_file_task',
+}
+
+/**
+ * The file message the modal was opened from
+ */
+export interface IAttachFileModalState {
+    roomId: string;
+    messageId: string;
+    file: IMessageFile;
+}
+
+function getStateAssociation(userId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `attach_file_modal_${userId}`);
+}
+
+export async function saveAttachFileState(persis: IPersistence, userId: string, state: IAttachFileModalState): Promise<void> {
+    await persis.updateByAssociation(getStateAssociation(userId), state, true);
+}
+
+export async function getAttachFileState(read: IRead, userId: string): Promise<IAttachFileModalState | undefined> {
+    const [state] = await read.getPersistenceReader().readByAssociation(getStateAssociation(userId)) as [IAttachFileModalState | undefined];
+    return state;
+}
+
+export async function clearAttachFileState(persis: IPersistence, userId: string): Promise<void> {
+    await persis.removeByAssociation(getStateAssociation(userId));
+}
+
+export function attachFileModal(modify: IModify, fileName: string): IUIKitModalViewParam {
+    const block = modify.getCreator().getBlockBuilder();
+
+    block.addInputBlock({
+        blockId: AttachFileAction.Task,
+        label: block.newPlainTextObject(`Attach "${fileName}" to task`),
+        element: block.newPlainTextInputElement({
+            actionId: AttachFileAction.Task,
+            placeholder: block.newPlainTextObject('Task ID or link'),
+        }),
+    });
+
+    return {
+        id: ATTACH_FILE_MODAL_ID,
+        title: block.newPlainTextObject('Attach file to Asana task'),
+        submit: block.newButtonElement({
+            text: block.newPlainTextObject('Attach'),
+        }),
+        close: block.newButtonElement({
+            text: block.newPlainTextObject('Cancel'),
+        }),
+        blocks: block.getBlocks(),
+    };
+}
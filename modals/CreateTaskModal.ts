@@ -0,0 +1,179 @@
+import { IHttp, IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { InputElementDispatchAction } from '@rocket.chat/apps-engine/definition/uikit/blocks';
+import { IUIKitModalViewParam } from '@rocket.chat/apps-engine/definition/uikit/UIKitInteractionResponder';
+import { AsanaApiService } from '../lib/AsanaApiService';
+
+export const CREATE_TASK_MODAL_ID = 'asana_create_task';
+
+/**
+ * Action IDs of the create task modal, also used as block IDs
+ */
+export enum CreateTaskAction {
+    Name = 'create_task_name',
+    Workspace = 'create_task_workspace',
+    Project = 'create_task_project',
+    Section = 'create_task_section',
+    Assignee = 'create_task_assignee',
+    DueOn = 'create_task_due_on',
+    Notes = 'create_task_notes',
+}
+
+/**
+ * What the modal is currently showing, kept between block actions and the submit
+ */
+export interface ICreateTaskModalState {
+    // room to post the confirmation card to
+    roomId: string;
+    // thread to reply in, when created from a message
+    threadId?: string;
+    workspaceId?: string;
+    projectId?: string;
+    name?: string;
+    notes?: string;
+}
+
+function getStateAssociation(userId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `create_task_modal_${userId}`);
+}
+
+export async function saveCreateTaskState(persis: IPersistence, userId: string, state: ICreateTaskModalState): Promise<void> {
+    await persis.updateByAssociation(getStateAssociation(userId), state, true);
+}
+
+export async function getCreateTaskState(read: IRead, userId: string): Promise<ICreateTaskModalState | undefined> {
+    const [state] = await read.getPersistenceReader().readByAssociation(getStateAssociation(userId)) as [ICreateTaskModalState | undefined];
+    return state;
+}
+
+export async function clearCreateTaskState(persis: IPersistence, userId: string): Promise<void> {
+    await persis.removeByAssociation(getStateAssociation(userId));
+}
+
+/**
+ * Build the create task modal, loading the pickers for the selected workspace and project
+ */
+export async function createTaskModal(
+    apiService: AsanaApiService,
+    state: ICreateTaskModalState,
+    accessToken: string,
+    modify: IModify,
+    http: IHttp,
+): Promise<IUIKitModalViewParam> {
+    const block = modify.getCreator().getBlockBuilder();
+
+    const workspaces = await apiService.getWorkspaces(accessToken, http);
+    const workspaceId = state.workspaceId || (workspaces.length > 0 ? workspaces[0].gid : undefined);
+
+    const toOptions = (items: Array<{ gid: string; name: string }>) => items.map((item) => ({
+        text: block.newPlainTextObject(item.name),
+        value: item.gid,
+    }));
+
+    block.addInputBlock({
+        blockId: CreateTaskAction.Name,
+        label: block.newPlainTextObject('Task name'),
+        element: block.newPlainTextInputElement({
+            actionId: CreateTaskAction.Name,
+            initialValue: state.name,
+            placeholder: block.newPlainTextObject('What needs to be done?'),
+        }),
+    });
+
+    block.addInputBlock({
+        blockId: CreateTaskAction.Workspace,
+        label: block.newPlainTextObject('Workspace'),
+        element: block.newStaticSelectElement({
+            actionId: CreateTaskAction.Workspace,
+            placeholder: block.newPlainTextObject('Select a workspace'),
+            options: toOptions(workspaces),
+            initialValue: workspaceId,
+            dispatchActionConfig: [InputElementDispatchAction.ON_ITEM_SELECTED],
+        }),
+    });
+
+    if (workspaceId) {
+        const projects = await apiService.getWorkspaceProjects(accessToken, workspaceId, http);
+        if (projects.length > 0) {
+            block.addInputBlock({
+                blockId: CreateTaskAction.Project,
+                label: block.newPlainTextObject('Project'),
+                optional: true,
+                element: block.newStaticSelectElement({
+                    actionId: CreateTaskAction.Project,
+                    placeholder: block.newPlainTextObject('Select a project'),
+                    options: toOptions(projects),
+                    initialValue: state.projectId,
+                    dispatchActionConfig: [InputElementDispatchAction.ON_ITEM_SELECTED],
+                }),
+            });
+        }
+    }
+
+    if (state.projectId) {
+        const sections = await apiService.getProjectSections(accessToken, state.projectId, http);
+        if (sections.length > 0) {
+            block.addInputBlock({
+                blockId: CreateTaskAction.Section,
+                label: block.newPlainTextObject('Section'),
+                optional: true,
+                element: block.newStaticSelectElement({
+                    actionId: CreateTaskAction.Section,
+                    placeholder: block.newPlainTextObject('Select a section'),
+                    options: toOptions(sections),
+                }),
+            });
+        }
+    }
+
+    if (workspaceId) {
+        const users = await apiService.getWorkspaceUsers(accessToken, workspaceId, http);
+        block.addInputBlock({
+            blockId: CreateTaskAction.Assignee,
+            label: block.newPlainTextObject('Assignee'),
+            optional: true,
+            element: block.newStaticSelectElement({
+                actionId: CreateTaskAction.Assignee,
+                placeholder: block.newPlainTextObject('Select an assignee'),
+                options: [
+                    { text: block.newPlainTextObject('Me'), value: 'me' },
+                    ...toOptions(users),
+                ],
+            }),
+        });
+    }
+
+    block.addInputBlock({
+        blockId: CreateTaskAction.DueOn,
+        label: block.newPlainTextObject('Due date'),
+        optional: true,
+        element: block.newPlainTextInputElement({
+            actionId: CreateTaskAction.DueOn,
+            placeholder: block.newPlainTextObject('YYYY-MM-DD'),
+        }),
+    });
+
+    block.addInputBlock({
+        blockId: CreateTaskAction.Notes,
+        label: block.newPlainTextObject('Notes'),
+        optional: true,
+        element: block.newPlainTextInputElement({
+            actionId: CreateTaskAction.Notes,
+            initialValue: state.notes,
+            multiline: true,
+            placeholder: block.newPlainTextObject('Add more detail to this task'),
+        }),
+    });
+
+    return {
+        id: CREATE_TASK_MODAL_ID,
+        title: block.newPlainTextObject('Create Asana task'),
+        submit: block.newButtonElement({
+            text: block.newPlainTextObject('Create'),
+        }),
+        close: block.newButtonElement({
+            text: block.newPlainTextObject('Cancel'),
+        }),
+        blocks: block.getBlocks(),
+    };
+}
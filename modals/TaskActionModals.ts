@@ -0,0 +1,92 @@
+import { IModify, IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationModel, RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import { IUIKitModalViewParam } from '@rocket.chat/apps-engine/definition/uikit/UIKitInteractionResponder';
+
+export const TASK_COMMENT_MODAL_ID = 'asana_task_comment';
+export const TASK_DUE_DATE_MODAL_ID = 'asana_task_due_date';
+
+/**
+ * Action IDs of the task action modals, also used as block IDs
+ */
+export enum TaskModalAction {
+    CommentText = 'task_comment_text',
+    DueOn = 'task_due_on',
+}
+
+/**
+ * The task a comment or due date modal was opened for
+ */
+export interface ITaskModalState {
+    taskId: string;
+    // room of the card the button was clicked on
+    roomId?: string;
+}
+
+function getStateAssociation(userId: string): RocketChatAssociationRecord {
+    return new RocketChatAssociationRecord(RocketChatAssociationModel.MISC, `task_modal_${userId}`);
+}
+
+export async function saveTaskModalState(persis: IPersistence, userId: string, state: ITaskModalState): Promise<void> {
+    await persis.updateByAssociation(getStateAssociation(userId), state, true);
+}
+
+export async function getTaskModalState(read: IRead, userId: string): Promise<ITaskModalState | undefined> {
+    const [state] = await read.getPersistenceReader().readByAssociation(getStateAssociation(userId)) as [ITaskModalState | undefined];
+    return state;
+}
+
+export async function clearTaskModalState(persis: IPersistence, userId: string): Promise<void> {
+    await persis.removeByAssociation(getStateAssociation(userId));
+}
+
+export function taskCommentModal(modify: IModify, taskName: string): IUIKitModalViewParam {
+    const block = modify.getCreator().getBlockBuilder();
+
+    block.addInputBlock({
+        blockId: TaskModalAction.CommentText,
+        label: block.newPlainTextObject(`Comment on "${taskName}"`),
+        element: block.newPlainTextInputElement({
+            actionId: TaskModalAction.CommentText,
+            multiline: true,
+            placeholder: block.newPlainTextObject('Markdown formatting is kept'),
+        }),
+    });
+
+    return {
+        id: TASK_COMMENT_MODAL_ID,
+        title: block.newPlainTextObject('Comment on Asana task'),
+        submit: block.newButtonElement({
+            text: block.newPlainTextObject('Comment'),
+        }),
+        close: block.newButtonElement({
+            text: block.newPlainTextObject('Cancel'),
+        }),
+        blocks: block.getBlocks(),
+    };
+}
+
+export function taskDueDateModal(modify: IModify, taskName: string, dueOn?: string | null): IUIKitModalViewParam {
+    const block = modify.getCreator().getBlockBuilder();
+
+    block.addInputBlock({
+        blockId: TaskModalAction.DueOn,
+        label: block.newPlainTextObject(`Due date of "${taskName}"`),
+        element: block.newPlainTextInputElement({
+            actionId: TaskModalAction.DueOn,
+            initialValue: dueOn || undefined,
+            placeholder: block.newPlainTextObject('YYYY-MM-DD, today, tomorrow, +3d or none'),
+        }),
+    });
+
+    return {
+        id: TASK_DUE_DATE_MODAL_ID,
+        title: block.newPlainTextObject('Change due date'),
+        submit: block.newButtonElement({
+            text: block.newPlainTextObject('Save'),
+        }),
+        close: block.newButtonElement({
+            text: block.newPlainTextObject('Cancel'),
+        }),
+        blocks: block.getBlocks(),
+    };
+}
@@ -7,6 +7,9 @@ export enum AppSetting {
     AsanaWebhookSecret = 'asana_webhook_secret',
     NotificationColor = 'notification_color',
     DefaultWorkspace = 'default_workspace',
+    CacheTtl = 'cache_ttl',
+    NotificationMode = 'notification_mode',
+    ThreadBroadcastEvents = 'thread_broadcast_events',
 }
 
 export const settings: Array<ISetting> = [
@@ -70,4 +73,41 @@ export const settings: Array<ISetting> = [
         i18nDescription: 'Default Asana workspace ID to use if not specified',
         required: false,
     },
-]; 
\ No newline at end of file
+    {
+        id: AppSetting.CacheTtl,
+        public: false,
+        type: SettingType.NUMBER,
+        packageValue: 300,
+        section: 'Asana Configuration',
+        i18nLabel: 'Cache Duration (seconds)',
+        i18nDescription: 'How long task, project and user details are cached for notifications, 0 turns the cache off',
+        required: false,
+    },
+    {
+        id: AppSetting.NotificationMode,
+        public: false,
+        type: SettingType.SELECT,
+        packageValue: 'messages',
+        values: [
+            { key: 'messages', i18nLabel: 'A new message per event' },
+            { key: 'threads', i18nLabel: 'One thread per task' },
+            { key: 'live', i18nLabel: 'One live card per task' },
+        ],
+        section: 'Notifications',
+        i18nLabel: 'Notification Style',
+        i18nDescription: 'How task notifications are posted: a thread per task gets later notifications as replies, '
+            + 'a live card is one message per task that is edited on every change. Rooms can pick their own with `/asana notify mode`',
+        required: false,
+    },
+    {
+        id: AppSetting.ThreadBroadcastEvents,
+        public: false,
+        type: SettingType.STRING,
+        packageValue: 'completed',
+        section: 'Notifications',
+        i18nLabel: 'Also Send to Channel',
+        i18nDescription: 'Comma separated event types whose thread replies are also posted in the channel, as a second separate message '
+            + 'since apps cannot flag a reply as sent to the channel: added, completed, reopened, assigned, due, moved, commented, changed, removed',
+        required: false,
+    },
+];
@@ -0,0 +1,133 @@
+import { IHttp, IHttpRequest, IHttpResponse, ILogger, RequestMethod } from '@rocket.chat/apps-engine/definition/accessors';
+import { AsanaApiService } from '../lib/AsanaApiService';
+import { AsanaErrorKind, isAsanaError } from '../lib/AsanaErrors';
+
+function response(statusCode: number, data?: any): IHttpResponse {
+    return { url: '', method: RequestMethod.GET, statusCode, data };
+}
+
+function createService(): AsanaApiService {
+    const logger = { debug: jest.fn(), error: jest.fn(), warn: jest.fn(), info: jest.fn(), log: jest.fn() } as any as ILogger;
+    return new AsanaApiService({
+        getLogger: () => logger,
+        getOAuth2Service: () => ({ refreshAccessToken: async () => undefined }),
+    } as any);
+}
+
+/**
+ * An IHttp serving a list in pages, the offset of a page is the index of its first item
+ * @param failAt Offset of a page answered with 403 instead
+ */
+function createPagedHttp(items: Array<string>, failAt?: string): IHttp & { get: jest.Mock } {
+    const get = jest.fn(async (url: string, options: IHttpRequest) => {
+        const params = options.params || {};
+        if (failAt !== undefined && params.offset === failAt) {
+            return response(403, { errors: [{ message: 'Forbidden' }] });
+        }
+
+        const start = params.offset ? parseInt(params.offset, 10) : 0;
+        const end = start + parseInt(params.limit, 10);
+        return response(200, {
+            data: items.slice(start, end).map((name) => ({ gid: name, name })),
+            next_page: end < items.length ? { offset: String(end) } : null,
+        });
+    });
+    return { get } as any;
+}
+
+function names(count: number): Array<string> {
+    return Array.from({ length: count }, (value, index) => `project ${index}`);
+}
+
+describe('AsanaApiService paging', () => {
+    it('follows next_page offsets until the list ends', async () => {
+        const http = createPagedHttp(names(250));
+        const result = await createService().getUserProjects('token', 'workspace', http);
+
+        expect(result.data).toHaveLength(250);
+        expect(result.data[249].name).toBe('project 249');
+        expect(result.nextOffset).toBeUndefined();
+        expect(http.get.mock.calls.map(([, options]) => [options.params.offset, options.params.limit])).toEqual([
+            [undefined, '100'],
+            ['100', '100'],
+            ['200', '100'],
+        ]);
+    });
+
+    it('stops at maxItems and returns the offset to continue from', async () => {
+        const http = createPagedHttp(names(250));
+        const result = await createService().getUserProjects('token', 'workspace', http, 150);
+
+        expect(result.data).toHaveLength(150);
+        expect(result.nextOffset).toBe('150');
+        // the last page only asks for what is missing
+        expect(http.get.mock.calls[1][1].params.limit).toBe('50');
+    });
+
+    it('throws when the first page fails', async () => {
+        const http = createPagedHttp(names(250));
+        http.get.mockResolvedValueOnce(response(403, { errors: [{ message: 'Forbidden' }] }));
+
+        await expect(createService().getUserProjects('token', 'workspace', http)).rejects.toThrow();
+    });
+
+    it('keeps what was loaded when a later page fails', async () => {
+        const http = createPagedHttp(names(250), '200');
+        const result = await createService().getUserProjects('token', 'workspace', http);
+
+        expect(result.data).toHaveLength(200);
+        expect(result.nextOffset).toBe('200');
+    });
+});
+
+describe('AsanaApiService batch', () => {
+    /**
+     * An IHttp answering batch requests, each action with the status its task ID asks for: "404" fails, others load
+     */
+    function createBatchHttp(): IHttp & { post: jest.Mock } {
+        const post = jest.fn(async (url: string, options: IHttpRequest) => {
+            const actions: Array<{ relative_path: string }> = options.data.data.actions;
+            return response(200, {
+                data: actions.map((action) => {
+                    const taskId = action.relative_path.split('/').pop();
+                    return taskId === '404'
+                        ? { status_code: 404, body: { errors: [{ message: 'Not found' }] } }
+                        : { status_code: 200, body: { data: { gid: taskId, name: `Task ${taskId}` } } };
+                }),
+            });
+        });
+        return { post } as any;
+    }
+
+    it('sends at most ten actions per request and keeps the order of the results', async () => {
+        const http = createBatchHttp();
+        const taskIds = Array.from({ length: 23 }, (value, index) => String(index + 1));
+        const results = await createService().getTasksByIds('token', taskIds, http);
+
+        expect(http.post.mock.calls.map(([url, options]) => [url, options.data.data.actions.length])).toEqual([
+            ['https://app.asana.com/api/1.0/batch', 10],
+            ['https://app.asana.com/api/1.0/batch', 10],
+            ['https://app.asana.com/api/1.0/batch', 3],
+        ]);
+        expect(results.map((result) => result.data && result.data.gid)).toEqual(taskIds);
+    });
+
+    it('fails actions one by one', async () => {
+        const results = await createService().getTasksByIds('token', ['1', '404', '3'], createBatchHttp());
+
+        expect(results[0].data).toMatchObject({ gid: '1' });
+        expect(results[1].data).toBeUndefined();
+        expect(results[1].error).toMatchObject({ kind: AsanaErrorKind.NotFound, message: 'Task 404 was not found in Asana.' });
+        expect(results[2].data).toMatchObject({ gid: '3' });
+    });
+
+    it('fails every action of a batch request that failed', async () => {
+        const http = createBatchHttp();
+        http.post.mockResolvedValueOnce(response(403, { errors: [{ message: 'Forbidden' }] }));
+        const taskIds = Array.from({ length: 12 }, (value, index) => String(index + 1));
+        const results = await createService().getTasksByIds('token', taskIds, http);
+
+        expect(results.slice(0, 10).every((result) => !result.data && isAsanaError(result.error, AsanaErrorKind.Forbidden))).toBe(true);
+        expect(results.slice(10).map((result) => result.data && result.data.gid)).toEqual(['11', '12']);
+    });
+});
@@ -0,0 +1,55 @@
+import { RequestMethod } from '@rocket.chat/apps-engine/definition/accessors';
+import { AsanaApiError, AsanaErrorKind, createAsanaError, createAsanaErrorForStatus, isAsanaError } from '../lib/AsanaErrors';
+
+describe('createAsanaErrorForStatus', () => {
+    it('maps status codes to error kinds', () => {
+        expect(createAsanaErrorForStatus(401, undefined, 'task 1').kind).toBe(AsanaErrorKind.Unauthorized);
+        expect(createAsanaErrorForStatus(403, undefined, 'task 1').kind).toBe(AsanaErrorKind.Forbidden);
+        expect(createAsanaErrorForStatus(404, undefined, 'task 1').kind).toBe(AsanaErrorKind.NotFound);
+        expect(createAsanaErrorForStatus(429, undefined, 'task 1').kind).toBe(AsanaErrorKind.RateLimited);
+        expect(createAsanaErrorForStatus(500, undefined, 'task 1').kind).toBe(AsanaErrorKind.Unavailable);
+        expect(createAsanaErrorForStatus(503, undefined, 'task 1').kind).toBe(AsanaErrorKind.Unavailable);
+        expect(createAsanaErrorForStatus(400, undefined, 'task 1').kind).toBe(AsanaErrorKind.Rejected);
+        expect(createAsanaErrorForStatus(402, undefined, 'task 1').kind).toBe(AsanaErrorKind.Rejected);
+    });
+
+    it('keeps the status code and names the resource in the message', () => {
+        const error = createAsanaErrorForStatus(404, undefined, 'task 1234');
+
+        expect(error).toBeInstanceOf(AsanaApiError);
+        expect(error.statusCode).toBe(404);
+        expect(error.message).toBe('Task 1234 was not found in Asana.');
+        expect(createAsanaErrorForStatus(403, undefined, 'project 7').message).toBe('You do not have access to project 7 in Asana.');
+    });
+
+    it('shows the messages of a rejected request', () => {
+        const body = { errors: [{ message: 'due_on: Invalid date' }, { message: 'name: Missing input' }] };
+
+        expect(createAsanaErrorForStatus(400, body, 'task 1').message).toBe('Asana rejected the request for task 1: due_on: Invalid date; name: Missing input');
+        expect(createAsanaErrorForStatus(400, 'Bad request', 'task 1').message).toBe('Asana rejected the request for task 1: Bad request');
+        expect(createAsanaErrorForStatus(400, undefined, 'task 1').message).toBe('Asana rejected the request for task 1: status 400');
+    });
+});
+
+describe('createAsanaError', () => {
+    it('reads the error body from the data or the content of the response', () => {
+        const body = { errors: [{ message: 'Invalid gid' }] };
+        const fromData = createAsanaError({ url: '', method: RequestMethod.GET, statusCode: 400, data: body }, 'task x');
+        const fromContent = createAsanaError({ url: '', method: RequestMethod.GET, statusCode: 400, content: JSON.stringify(body) }, 'task x');
+        const fromText = createAsanaError({ url: '', method: RequestMethod.GET, statusCode: 400, content: 'Bad request' }, 'task x');
+
+        expect(fromData.message).toBe('Asana rejected the request for task x: Invalid gid');
+        expect(fromContent.message).toBe('Asana rejected the request for task x: Invalid gid');
+        expect(fromText.message).toBe('Asana rejected the request for task x: Bad request');
+    });
+});
+
+describe('isAsanaError', () => {
+    it('checks the kind of Asana errors only', () => {
+        const error = createAsanaErrorForStatus(404, undefined, 'task 1');
+
+        expect(isAsanaError(error, AsanaErrorKind.NotFound)).toBe(true);
+        expect(isAsanaError(error, AsanaErrorKind.Forbidden)).toBe(false);
+        expect(isAsanaError(new Error('Task 1 was not found in Asana.'), AsanaErrorKind.NotFound)).toBe(false);
+    });
+});
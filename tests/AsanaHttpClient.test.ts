@@ -0,0 +1,170 @@
+import { IHttp, IHttpResponse, ILogger, RequestMethod } from '@rocket.chat/apps-engine/definition/accessors';
+import { AsanaErrorKind } from '../lib/AsanaErrors';
+import { AsanaHttpClient } from '../lib/AsanaHttpClient';
+
+const URL = 'https://app.asana.com/api/1.0/tasks/1';
+
+function response(statusCode: number, headers: { [key: string]: string } = {}): IHttpResponse {
+    return { statusCode, headers, url: URL, method: RequestMethod.GET };
+}
+
+function createLogger(): ILogger {
+    return { debug: jest.fn(), error: jest.fn(), warn: jest.fn(), info: jest.fn(), log: jest.fn() } as any;
+}
+
+/**
+ * An IHttp whose calls answer with the given responses in turn, an Error is thrown instead
+ */
+function createHttp(...responses: Array<IHttpResponse | Error>): IHttp & { get: jest.Mock; post: jest.Mock } {
+    const next = jest.fn(async () => {
+        const item = responses.shift();
+        if (item instanceof Error) {
+            throw item;
+        }
+        return item;
+    });
+    return { get: next, post: next, put: next, del: next, patch: next } as any;
+}
+
+describe('AsanaHttpClient', () => {
+    beforeEach(() => {
+        // no jitter, so backoff delays are 0ms
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('retries', () => {
+        it('retries a GET answered with 5xx', async () => {
+            const http = createHttp(response(503), response(200));
+            const result = await new AsanaHttpClient(createLogger()).get('token', URL, {}, http);
+
+            expect(result.statusCode).toBe(200);
+            expect(http.get).toHaveBeenCalledTimes(2);
+        });
+
+        it('gives up after three retries and returns the last response', async () => {
+            const http = createHttp(response(500), response(502), response(503), response(504), response(200));
+            const result = await new AsanaHttpClient(createLogger()).get('token', URL, {}, http);
+
+            expect(result.statusCode).toBe(504);
+            expect(http.get).toHaveBeenCalledTimes(4);
+        });
+
+        it('does not retry a POST answered with 5xx, the create may have been applied', async () => {
+            const http = createHttp(response(500), response(201));
+            const result = await new AsanaHttpClient(createLogger()).post('token', URL, {}, http);
+
+            expect(result.statusCode).toBe(500);
+            expect(http.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('retries a POST answered with 429', async () => {
+            const http = createHttp(response(429, { 'retry-after': '0' }), response(201));
+            const result = await new AsanaHttpClient(createLogger()).post('token', URL, {}, http);
+
+            expect(result.statusCode).toBe(201);
+            expect(http.post).toHaveBeenCalledTimes(2);
+        });
+
+        it('does not wait out a Retry-After longer than the longest retry delay', async () => {
+            const http = createHttp(response(429, { 'Retry-After': '60' }), response(200));
+            const result = await new AsanaHttpClient(createLogger()).get('token', URL, {}, http);
+
+            expect(result.statusCode).toBe(429);
+            expect(http.get).toHaveBeenCalledTimes(1);
+        });
+
+        it('retries network errors of a GET, then fails as unavailable', async () => {
+            const http = createHttp(new Error('reset'), new Error('reset'), new Error('reset'), new Error('reset'));
+            const request = new AsanaHttpClient(createLogger()).get('token', URL, {}, http);
+
+            await expect(request).rejects.toMatchObject({ kind: AsanaErrorKind.Unavailable });
+            expect(http.get).toHaveBeenCalledTimes(4);
+        });
+
+        it('does not retry network errors of a POST', async () => {
+            const http = createHttp(new Error('reset'), response(201));
+            const request = new AsanaHttpClient(createLogger()).post('token', URL, {}, http);
+
+            await expect(request).rejects.toMatchObject({ kind: AsanaErrorKind.Unavailable });
+            expect(http.post).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('401 refresh', () => {
+        it('sends the request once more with the refreshed token', async () => {
+            const http = createHttp(response(401), response(200));
+            const refresh = jest.fn(async () => 'new-token');
+            const result = await new AsanaHttpClient(createLogger(), refresh).get('old-token', URL, { headers: { Authorization: 'Bearer old-token' } }, http);
+
+            expect(result.statusCode).toBe(200);
+            expect(refresh).toHaveBeenCalledWith('old-token');
+            expect(http.get.mock.calls[1][1].headers.Authorization).toBe('Bearer new-token');
+        });
+
+        it('refreshes only once per request', async () => {
+            const http = createHttp(response(401), response(401), response(200));
+            const refresh = jest.fn(async () => 'new-token');
+            const result = await new AsanaHttpClient(createLogger(), refresh).get('old-token', URL, {}, http);
+
+            expect(result.statusCode).toBe(401);
+            expect(refresh).toHaveBeenCalledTimes(1);
+            expect(http.get).toHaveBeenCalledTimes(2);
+        });
+
+        it('returns the 401 when the token cannot be refreshed', async () => {
+            const http = createHttp(response(401), response(200));
+            const refresh = jest.fn(async () => undefined);
+            const result = await new AsanaHttpClient(createLogger(), refresh).get('old-token', URL, {}, http);
+
+            expect(result.statusCode).toBe(401);
+            expect(http.get).toHaveBeenCalledTimes(1);
+        });
+
+        it('returns the 401 without a refresher', async () => {
+            const http = createHttp(response(401), response(200));
+            const result = await new AsanaHttpClient(createLogger()).get('token', URL, {}, http);
+
+            expect(result.statusCode).toBe(401);
+            expect(http.get).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('concurrency', () => {
+        it('keeps at most five requests of a token in flight', async () => {
+            const pending: Array<() => void> = [];
+            let inFlight = 0;
+            let maxInFlight = 0;
+            const http = {
+                get: jest.fn(() => new Promise<IHttpResponse>((resolve) => {
+                    inFlight++;
+                    maxInFlight = Math.max(maxInFlight, inFlight);
+                    pending.push(() => {
+                        inFlight--;
+                        resolve(response(200));
+                    });
+                })),
+            } as any as IHttp;
+
+            const client = new AsanaHttpClient(createLogger());
+            const requests = Array.from({ length: 7 }, () => client.get('token', URL, {}, http));
+            // a request of another token does not wait for them
+            const other = client.get('other-token', URL, {}, http);
+
+            await new Promise((resolve) => setImmediate(resolve));
+            expect(inFlight).toBe(6);
+
+            while (pending.length > 0) {
+                pending.shift()!();
+                await new Promise((resolve) => setImmediate(resolve));
+            }
+            await Promise.all([...requests, other]);
+
+            expect(maxInFlight).toBe(6);
+            expect(http.get).toHaveBeenCalledTimes(8);
+        });
+    });
+});
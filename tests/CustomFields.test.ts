@@ -0,0 +1,89 @@
+import { IAsanaCustomField, IAsanaTask } from '../lib/AsanaModels';
+import { formatCustomFieldValue, getCustomFieldValues, matchesCustomFieldFilters, parseCustomFieldFilters } from '../lib/CustomFields';
+
+function field(values: Partial<IAsanaCustomField>): IAsanaCustomField {
+    return { gid: '1', name: 'Field', ...values };
+}
+
+const task: IAsanaTask = {
+    gid: '100',
+    name: 'Launch',
+    custom_fields: [
+        field({ name: 'Priority', resource_subtype: 'enum', enum_value: { gid: '2', name: 'High' } }),
+        field({ name: 'Teams', resource_subtype: 'multi_enum', multi_enum_values: [{ gid: '3', name: 'Web' }, { gid: '4', name: 'Mobile' }] }),
+        field({ name: 'Estimate', resource_subtype: 'number', number_value: 3, precision: 1 }),
+        field({ name: 'Reviewer', resource_subtype: 'people', people_value: [] }),
+    ],
+};
+
+describe('formatCustomFieldValue', () => {
+    it('formats each field type', () => {
+        expect(formatCustomFieldValue(field({ resource_subtype: 'enum', enum_value: { gid: '2', name: 'High' } }))).toBe('High');
+        expect(formatCustomFieldValue(field({ resource_subtype: 'text', text_value: 'Notes' }))).toBe('Notes');
+        expect(formatCustomFieldValue(field({ resource_subtype: 'date', date_value: { date: '2024-05-01', date_time: null } }))).toBe('2024-05-01');
+        expect(formatCustomFieldValue(field({ resource_subtype: 'people', people_value: [{ gid: '5', name: 'Alex' }, { gid: '6' }] }))).toBe('Alex, 6');
+        expect(formatCustomFieldValue(field({ resource_subtype: 'formula', display_value: '42 days' }))).toBe('42 days');
+    });
+
+    it('formats numbers with their precision and format', () => {
+        expect(formatCustomFieldValue(field({ resource_subtype: 'number', number_value: 3, precision: 2 }))).toBe('3.00');
+        expect(formatCustomFieldValue(field({ resource_subtype: 'number', number_value: 0.25, format: 'percentage' }))).toBe('25%');
+        expect(formatCustomFieldValue(field({ resource_subtype: 'number', number_value: 12.5, precision: 2, format: 'currency', currency_code: 'EUR' })))
+            .toBe('12.50 EUR');
+        expect(formatCustomFieldValue(field({ resource_subtype: 'number', number_value: 0 }))).toBe('0');
+    });
+
+    it('returns undefined for empty fields', () => {
+        expect(formatCustomFieldValue(field({ resource_subtype: 'enum', enum_value: null }))).toBeUndefined();
+        expect(formatCustomFieldValue(field({ resource_subtype: 'number', number_value: null }))).toBeUndefined();
+        expect(formatCustomFieldValue(field({ resource_subtype: 'multi_enum', multi_enum_values: [] }))).toBeUndefined();
+    });
+});
+
+describe('getCustomFieldValues', () => {
+    it('lists the fields that have a value', () => {
+        expect(getCustomFieldValues(task)).toEqual([
+            { name: 'Priority', value: 'High' },
+            { name: 'Teams', value: 'Web, Mobile' },
+            { name: 'Estimate', value: '3.0' },
+        ]);
+    });
+});
+
+describe('parseCustomFieldFilters', () => {
+    it('collects --field Name=Value flags, names and values may contain spaces', () => {
+        expect(parseCustomFieldFilters(['--field', 'Sprint', 'goal=Ship', 'it', '--mine', '--FIELD', 'Priority=High', 'rest'])).toEqual({
+            filters: [{ name: 'Sprint goal', value: 'Ship it' }, { name: 'Priority', value: 'High rest' }],
+            rest: ['--mine'],
+            invalid: [],
+        });
+    });
+
+    it('reports flags that are not Name=Value', () => {
+        const { invalid } = parseCustomFieldFilters(['--field', 'Priority', '--field', '=High', '--field', 'Priority=']);
+
+        expect(invalid).toEqual(['Priority', '=High', 'Priority=']);
+    });
+});
+
+describe('matchesCustomFieldFilters', () => {
+    it('compares names and values case-insensitively', () => {
+        expect(matchesCustomFieldFilters(task, [{ name: 'priority', value: 'HIGH' }])).toBe(true);
+        expect(matchesCustomFieldFilters(task, [{ name: 'Priority', value: 'Low' }])).toBe(false);
+    });
+
+    it('matches one value of a multi-value field, and numbers by value', () => {
+        expect(matchesCustomFieldFilters(task, [{ name: 'Teams', value: 'mobile' }])).toBe(true);
+        expect(matchesCustomFieldFilters(task, [{ name: 'Estimate', value: '3' }])).toBe(true);
+    });
+
+    it('matches "none" against empty fields, and never a field the task does not have', () => {
+        expect(matchesCustomFieldFilters(task, [{ name: 'Reviewer', value: 'none' }])).toBe(true);
+        expect(matchesCustomFieldFilters(task, [{ name: 'Status', value: 'none' }])).toBe(false);
+    });
+
+    it('requires every filter to match', () => {
+        expect(matchesCustomFieldFilters(task, [{ name: 'Priority', value: 'High' }, { name: 'Teams', value: 'Web' }])).toBe(true);
+        expect(matchesCustomFieldFilters(task, [{ name: 'Priority', value: 'High' }, { name: 'Teams', value: 'Backend' }])).toBe(false);
+    });
+});
@@ -0,0 +1,65 @@
+import { formatDate, isOverdue, parseDueDate } from '../lib/DateUtils';
+
+describe('parseDueDate', () => {
+    beforeEach(() => {
+        // the last day of a month, so relative dates roll over into the next one
+        jest.useFakeTimers().setSystemTime(new Date(2024, 0, 31, 12));
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('accepts YYYY-MM-DD dates that exist', () => {
+        expect(parseDueDate('2024-02-29')).toBe('2024-02-29');
+        expect(parseDueDate(' 2024-12-01 ')).toBe('2024-12-01');
+        expect(parseDueDate('2023-02-29')).toBeUndefined();
+        expect(parseDueDate('2024-13-01')).toBeUndefined();
+    });
+
+    it('resolves today, tomorrow and +Nd against the local date', () => {
+        expect(parseDueDate('today')).toBe('2024-01-31');
+        expect(parseDueDate('Tomorrow')).toBe('2024-02-01');
+        expect(parseDueDate('+30d')).toBe('2024-03-01');
+    });
+
+    it('returns null to clear the due date', () => {
+        expect(parseDueDate('none')).toBeNull();
+        expect(parseDueDate('CLEAR')).toBeNull();
+    });
+
+    it('returns undefined for anything else', () => {
+        expect(parseDueDate('')).toBeUndefined();
+        expect(parseDueDate('next week')).toBeUndefined();
+        expect(parseDueDate('+1000d')).toBeUndefined();
+        expect(parseDueDate('31.01.2024')).toBeUndefined();
+    });
+});
+
+describe('formatDate', () => {
+    it('pads month and day', () => {
+        expect(formatDate(new Date(2024, 2, 5))).toBe('2024-03-05');
+    });
+});
+
+describe('isOverdue', () => {
+    beforeEach(() => {
+        jest.useFakeTimers().setSystemTime(new Date(2024, 0, 31, 12));
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('is true for due dates before today only', () => {
+        expect(isOverdue('2024-01-30')).toBe(true);
+        expect(isOverdue('2023-12-31')).toBe(true);
+        expect(isOverdue('2024-01-31')).toBe(false);
+        expect(isOverdue('2024-02-01')).toBe(false);
+    });
+
+    it('is false without a due date', () => {
+        expect(isOverdue(null)).toBe(false);
+        expect(isOverdue(undefined)).toBe(false);
+    });
+});
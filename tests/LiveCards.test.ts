@@ -0,0 +1,38 @@
+import { addCardHistory, formatCardHistory } from '../lib/LiveCards';
+
+describe('addCardHistory', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('puts the newest entry first and keeps the last five', () => {
+        jest.useFakeTimers().setSystemTime(new Date('2024-05-01T09:30:15Z'));
+        let history: Array<{ text: string; at: string }> = [];
+        for (let index = 1; index <= 6; index++) {
+            history = addCardHistory(history, `change ${index}`);
+        }
+
+        expect(history.map((entry) => entry.text)).toEqual(['change 6', 'change 5', 'change 4', 'change 3', 'change 2']);
+        expect(history[0].at).toBe('2024-05-01T09:30:15.000Z');
+    });
+
+    it('leaves the given history unchanged', () => {
+        const history = [{ text: 'created', at: '2024-05-01T09:00:00.000Z' }];
+        addCardHistory(history, 'completed');
+
+        expect(history).toHaveLength(1);
+    });
+});
+
+describe('formatCardHistory', () => {
+    it('lists the entries with their time in UTC', () => {
+        expect(formatCardHistory([
+            { text: 'Completed by Alex', at: '2024-05-01T09:30:15.000Z' },
+            { text: 'Created', at: '2024-04-30T17:05:00.000Z' },
+        ])).toBe('• Completed by Alex _(2024-05-01 09:30 UTC)_\n• Created _(2024-04-30 17:05 UTC)_');
+    });
+
+    it('is empty without history', () => {
+        expect(formatCardHistory([])).toBe('');
+    });
+});
@@ -0,0 +1,31 @@
+import { markdownToAsanaHtml } from '../lib/MarkdownConverter';
+
+describe('markdownToAsanaHtml', () => {
+    it('wraps plain text in a body', () => {
+        expect(markdownToAsanaHtml('Looks good')).toBe('<body>Looks good</body>');
+        expect(markdownToAsanaHtml('')).toBe('<body></body>');
+    });
+
+    it('converts bold, italic and strikethrough', () => {
+        expect(markdownToAsanaHtml('**very** *much* _so_ ~not~')).toBe('<body><strong>very</strong> <strong>much</strong> <em>so</em> <s>not</s></body>');
+    });
+
+    it('leaves underscores inside words alone', () => {
+        expect(markdownToAsanaHtml('see snake_case_name')).toBe('<body>see snake_case_name</body>');
+    });
+
+    it('escapes HTML', () => {
+        expect(markdownToAsanaHtml('a < b & "c" > d')).toBe('<body>a &lt; b &amp; &quot;c&quot; &gt; d</body>');
+    });
+
+    it('keeps the content of inline code and code blocks as typed', () => {
+        expect(markdownToAsanaHtml('run `npm **test**`')).toBe('<body>run <code>npm **test**</code></body>');
+        expect(markdownToAsanaHtml('```ts\nconst a = x < 1;\n```')).toBe('<body><pre>const a = x &lt; 1;</pre></body>');
+    });
+
+    it('converts markdown links, Rocket.Chat links and bare URLs', () => {
+        expect(markdownToAsanaHtml('[docs](https://example.com/a_b)')).toBe('<body><a href="https://example.com/a_b">docs</a></body>');
+        expect(markdownToAsanaHtml('<https://example.com|docs>')).toBe('<body><a href="https://example.com">docs</a></body>');
+        expect(markdownToAsanaHtml('see https://example.com/x.')).toBe('<body>see <a href="https://example.com/x">https://example.com/x</a>.</body>');
+    });
+});
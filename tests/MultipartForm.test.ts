@@ -0,0 +1,63 @@
+import { buildMultipartForm, createMultipartRequest } from '../lib/MultipartForm';
+
+// bytes that are not valid UTF-8, and would change if the body went through a string
+const BINARY = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff, 0xfe]);
+
+function getBoundary(contentType: string): string {
+    const match = /^multipart\/form-data; boundary=(\S+)$/.exec(contentType);
+    expect(match).not.toBeNull();
+    return match![1];
+}
+
+describe('buildMultipartForm', () => {
+    it('frames the fields and the file with the boundary of the Content-Type', () => {
+        const form = buildMultipartForm({ parent: '1200' }, 'file', { name: 'notes.txt', type: 'text/plain', content: Buffer.from('hello') });
+        const boundary = getBoundary(form.contentType);
+
+        expect(form.body.toString('utf8')).toBe(
+            `--${boundary}\r\nContent-Disposition: form-data; name="parent"\r\n\r\n1200\r\n`
+            + `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="notes.txt"\r\nContent-Type: text/plain\r\n\r\n`
+            + `hello\r\n--${boundary}--\r\n`,
+        );
+    });
+
+    it('uses a new boundary for every form', () => {
+        const file = { name: 'a.txt', type: 'text/plain', content: Buffer.from('a') };
+
+        expect(buildMultipartForm({}, 'file', file).contentType).not.toBe(buildMultipartForm({}, 'file', file).contentType);
+    });
+
+    it('leaves the file bytes unchanged', () => {
+        const form = buildMultipartForm({ parent: '1200' }, 'file', { name: 'image.png', type: 'image/png', content: BINARY });
+        const boundary = getBoundary(form.contentType);
+        const start = form.body.indexOf('Content-Type: image/png\r\n\r\n') + 'Content-Type: image/png\r\n\r\n'.length;
+        const end = form.body.lastIndexOf(`\r\n--${boundary}--\r\n`);
+
+        expect(form.body.subarray(start, end).equals(BINARY)).toBe(true);
+    });
+
+    it('falls back to application/octet-stream without a file type', () => {
+        const form = buildMultipartForm({}, 'file', { name: 'blob', type: '', content: BINARY });
+
+        expect(form.body.toString('latin1')).toContain('Content-Type: application/octet-stream\r\n');
+    });
+
+    it('escapes quotes and line breaks in the file name', () => {
+        const form = buildMultipartForm({}, 'file', { name: 'a"b\r\nX-Injected: 1.txt', type: 'text/plain', content: Buffer.from('x') });
+        const body = form.body.toString('utf8');
+
+        expect(body).toContain('filename="a%22b  X-Injected: 1.txt"\r\n');
+        expect(body).not.toContain('\r\nX-Injected');
+    });
+});
+
+describe('createMultipartRequest', () => {
+    it('sends the body as it is, with the Content-Type added to the headers', () => {
+        const form = buildMultipartForm({}, 'file', { name: 'image.png', type: 'image/png', content: BINARY });
+        const request = createMultipartRequest(form, { headers: { Authorization: 'Bearer token' }, params: { opt_fields: 'name' } });
+
+        expect(request.content).toBe(form.body);
+        expect(request.headers).toEqual({ 'Authorization': 'Bearer token', 'Content-Type': form.contentType });
+        expect(request.params).toEqual({ opt_fields: 'name' });
+    });
+});
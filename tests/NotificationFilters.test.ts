@@ -0,0 +1,124 @@
+import { IAsanaCustomField, IAsanaTask } from '../lib/AsanaModels';
+import {
+    getNotificationEventType,
+    IFilterableEvent,
+    matchesNotificationFilter,
+    needsTask,
+    parseNotificationFilter,
+} from '../lib/NotificationFilters';
+
+function taskEvent(action: string, field?: string, parentType?: string): IFilterableEvent {
+    return {
+        action,
+        resource: { resource_type: 'task' },
+        parent: parentType ? { resource_type: parentType } : null,
+        change: field ? { field } : null,
+    };
+}
+
+const commentEvent: IFilterableEvent = { action: 'added', resource: { resource_type: 'story' }, parent: { resource_type: 'task' } };
+
+const priority: IAsanaCustomField = { gid: '10', name: 'Priority', resource_subtype: 'enum', enum_value: { gid: '11', name: 'High' } };
+
+const task: IAsanaTask = {
+    gid: '1',
+    name: 'Ship it',
+    completed: false,
+    assignee: { gid: '42', name: 'Alex Doe' },
+    memberships: [{ project: { gid: '7', name: 'Launch' }, section: { gid: '8', name: 'Doing' } }],
+    tags: [{ gid: '9', name: 'Urgent' }],
+    custom_fields: [priority],
+};
+
+describe('parseNotificationFilter', () => {
+    it('parses every flag, values run until the next flag', () => {
+        const { filter, errors } = parseNotificationFilter([
+            '--events', 'completed,', 'Commented', '--fields', 'due_on', '--assignee', '@alex', '--section', 'In', 'review', '--tag', 'urgent',
+            '--field', 'Priority=High',
+        ]);
+
+        expect(errors).toEqual([]);
+        expect(filter).toEqual({
+            events: ['completed', 'commented'],
+            fields: ['due_on'],
+            assignee: { name: 'alex' },
+            section: 'In review',
+            tag: 'urgent',
+            customFields: [{ name: 'Priority', value: 'High' }],
+        });
+    });
+
+    it('reports unknown event types, unknown flags, missing values and bad custom fields', () => {
+        const { filter, errors } = parseNotificationFilter(['--events', 'finished', '--color', 'red', '--tag', '--field', 'Priority']);
+
+        expect(filter).toEqual({});
+        expect(errors).toHaveLength(4);
+        expect(errors).toContainEqual(expect.stringContaining('Unknown event type finished'));
+        expect(errors).toContainEqual('Unknown option `--color`');
+        expect(errors).toContainEqual('`--tag` needs a value');
+        expect(errors).toContainEqual('`--field Priority` is not of the form Name=Value');
+    });
+});
+
+describe('getNotificationEventType', () => {
+    it('tells the kind of a task event from its action', () => {
+        expect(getNotificationEventType(taskEvent('added'))).toBe('added');
+        expect(getNotificationEventType(taskEvent('added', undefined, 'section'))).toBe('moved');
+        expect(getNotificationEventType(taskEvent('deleted'))).toBe('removed');
+        expect(getNotificationEventType(taskEvent('uncompleted'))).toBe('reopened');
+    });
+
+    it('tells the kind of a changed event from its field', () => {
+        expect(getNotificationEventType(taskEvent('changed', 'assignee'))).toBe('assigned');
+        expect(getNotificationEventType(taskEvent('changed', 'due_at'))).toBe('due');
+        expect(getNotificationEventType(taskEvent('changed', 'notes'))).toBe('changed');
+        expect(getNotificationEventType(taskEvent('changed', 'completed'), { ...task, completed: true })).toBe('completed');
+        expect(getNotificationEventType(taskEvent('changed', 'completed'), task)).toBe('reopened');
+    });
+
+    it('treats added stories as comments', () => {
+        expect(getNotificationEventType(commentEvent)).toBe('commented');
+    });
+});
+
+describe('matchesNotificationFilter', () => {
+    it('matches everything without conditions', () => {
+        expect(matchesNotificationFilter({}, taskEvent('changed', 'notes'))).toBe(true);
+    });
+
+    it('matches event types and changed fields', () => {
+        expect(matchesNotificationFilter({ events: ['commented'] }, commentEvent)).toBe(true);
+        expect(matchesNotificationFilter({ events: ['completed'] }, commentEvent)).toBe(false);
+        expect(matchesNotificationFilter({ fields: ['due_on'] }, taskEvent('changed', 'due_on'))).toBe(true);
+        expect(matchesNotificationFilter({ fields: ['due_on'] }, taskEvent('changed', 'name'))).toBe(false);
+    });
+
+    it('needs the task for conditions on it', () => {
+        const filter = { tag: 'urgent' };
+
+        expect(needsTask(filter)).toBe(true);
+        expect(matchesNotificationFilter(filter, taskEvent('added'))).toBe(false);
+        expect(matchesNotificationFilter(filter, taskEvent('added'), task)).toBe(true);
+    });
+
+    it('matches assignee, section and tag by name or ID', () => {
+        expect(matchesNotificationFilter({ assignee: { name: 'alex doe' } }, taskEvent('added'), task)).toBe(true);
+        expect(matchesNotificationFilter({ assignee: { gid: '43', name: 'Alex Doe' } }, taskEvent('added'), task)).toBe(false);
+        expect(matchesNotificationFilter({ assignee: { name: 'none' } }, taskEvent('added'), { ...task, assignee: null })).toBe(true);
+        expect(matchesNotificationFilter({ section: '8' }, taskEvent('added'), task)).toBe(true);
+        expect(matchesNotificationFilter({ section: 'Done' }, taskEvent('added'), task)).toBe(false);
+        expect(matchesNotificationFilter({ tag: 'Later' }, taskEvent('added'), task)).toBe(false);
+    });
+
+    it('matches custom field values', () => {
+        expect(matchesNotificationFilter({ customFields: [{ name: 'priority', value: 'high' }] }, taskEvent('added'), task)).toBe(true);
+        expect(matchesNotificationFilter({ customFields: [{ name: 'Priority', value: 'Low' }] }, taskEvent('added'), task)).toBe(false);
+    });
+
+    it('requires every condition to hold', () => {
+        const filter = { events: ['commented'], tag: 'Urgent', section: 'Done' };
+
+        expect(matchesNotificationFilter(filter, commentEvent, task)).toBe(false);
+        expect(matchesNotificationFilter({ ...filter, section: 'Doing' }, commentEvent, task)).toBe(true);
+    });
+});
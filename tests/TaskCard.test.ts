@@ -0,0 +1,24 @@
+import { BlockBuilder } from '@rocket.chat/apps-engine/definition/uikit';
+import { addSubtaskChecklistBlocks, TaskCardAction } from '../lib/TaskCard';
+
+describe('addSubtaskChecklistBlocks', () => {
+    it('adds a section per subtask, with a Done button on the open ones', () => {
+        const blocks = addSubtaskChecklistBlocks(new BlockBuilder('app-id'), [
+            { gid: '1', name: 'Write tests', completed: false },
+            { gid: '2', name: 'Review', completed: true },
+        ]).getBlocks() as Array<any>;
+
+        expect(blocks).toHaveLength(2);
+        expect(blocks[0]).toMatchObject({
+            blockId: 'asana_subtask_1',
+            text: { text: '⬜ Write tests' },
+            accessory: { actionId: TaskCardAction.CompleteSubtask, value: '1', text: { text: 'Done' } },
+        });
+        expect(blocks[1]).toMatchObject({ blockId: 'asana_subtask_2', text: { text: '☑️ ~Review~' } });
+        expect(blocks[1].accessory).toBeUndefined();
+    });
+
+    it('adds nothing without subtasks', () => {
+        expect(addSubtaskChecklistBlocks(new BlockBuilder('app-id'), []).getBlocks()).toEqual([]);
+    });
+});
@@ -0,0 +1,113 @@
+import { IPersistence, IRead } from '@rocket.chat/apps-engine/definition/accessors';
+import { RocketChatAssociationRecord } from '@rocket.chat/apps-engine/definition/metadata';
+import * as crypto from 'crypto';
+import {
+    getWebhookSecret,
+    getWebhookTarget,
+    hasWebhookKey,
+    isValidSignature,
+    linkWebhookSecret,
+    registerPendingWebhook,
+    saveHandshakeSecret,
+} from '../lib/WebhookSecrets';
+
+/**
+ * Persistence kept in a map, a record is stored under each of its associations
+ */
+function createStore(): { read: IRead; persis: IPersistence } {
+    const records = new Map<string, object>();
+    const key = (association: RocketChatAssociationRecord) => `${association.getModel()}:${association.getID()}`;
+    const persis = {
+        createWithAssociation: async (data: object, association: RocketChatAssociationRecord) => {
+            records.set(key(association), data);
+        },
+        createWithAssociations: async (data: object, associations: Array<RocketChatAssociationRecord>) => {
+            associations.forEach((association) => records.set(key(association), data));
+        },
+        updateByAssociation: async (association: RocketChatAssociationRecord, data: object) => {
+            records.set(key(association), data);
+        },
+        removeByAssociation: async (association: RocketChatAssociationRecord) => {
+            records.delete(key(association));
+        },
+    } as any as IPersistence;
+    const read = {
+        getPersistenceReader: () => ({
+            readByAssociation: async (association: RocketChatAssociationRecord) => records.has(key(association)) ? [records.get(key(association))] : [],
+        }),
+    } as any as IRead;
+    return { read, persis };
+}
+
+function sign(secret: string, payload: string): string {
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+describe('isValidSignature', () => {
+    const payload = '{"events":[]}';
+
+    it('accepts the HMAC-SHA256 of the payload', () => {
+        expect(isValidSignature('secret', payload, sign('secret', payload))).toBe(true);
+    });
+
+    it('rejects a signature made with another secret or for another payload', () => {
+        expect(isValidSignature('secret', payload, sign('other', payload))).toBe(false);
+        expect(isValidSignature('secret', payload, sign('secret', '{"events":[{}]}'))).toBe(false);
+    });
+
+    it('rejects a truncated or malformed signature without throwing', () => {
+        expect(isValidSignature('secret', payload, sign('secret', payload).slice(0, 32))).toBe(false);
+        expect(isValidSignature('secret', payload, '')).toBe(false);
+        expect(isValidSignature('secret', payload, 'not hex')).toBe(false);
+    });
+});
+
+describe('hasWebhookKey', () => {
+    it('tells webhooks created with a key from legacy ones', () => {
+        expect(hasWebhookKey(getWebhookTarget('https://chat.example.com/api/apps/public/x/webhook', 'abc'))).toBe(true);
+        expect(hasWebhookKey('https://chat.example.com/api/apps/public/x/webhook?a=1&hook=abc')).toBe(true);
+        expect(hasWebhookKey('https://chat.example.com/api/apps/public/x/webhook')).toBe(false);
+        expect(hasWebhookKey(undefined)).toBe(false);
+    });
+});
+
+describe('webhook handshake', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stores the secret of an announced key and links it to the webhook', async () => {
+        const { read, persis } = createStore();
+        await registerPendingWebhook(persis, 'key');
+
+        expect(await saveHandshakeSecret(read, persis, 'key', 'secret')).toBe(true);
+        expect(await linkWebhookSecret(read, persis, 'key', '1200')).toBe(true);
+        expect(await getWebhookSecret(read, '1200')).toMatchObject({ key: 'key', secret: 'secret', webhookId: '1200' });
+    });
+
+    it('accepts no handshake for a key that was not announced', async () => {
+        const { read, persis } = createStore();
+
+        expect(await saveHandshakeSecret(read, persis, 'key', 'secret')).toBe(false);
+        expect(await linkWebhookSecret(read, persis, 'key', '1200')).toBe(false);
+    });
+
+    it('does not let a second handshake replace the secret', async () => {
+        const { read, persis } = createStore();
+        await registerPendingWebhook(persis, 'key');
+        await saveHandshakeSecret(read, persis, 'key', 'secret');
+
+        expect(await saveHandshakeSecret(read, persis, 'key', 'forged')).toBe(false);
+        await linkWebhookSecret(read, persis, 'key', '1200');
+        expect(await getWebhookSecret(read, '1200')).toMatchObject({ secret: 'secret' });
+    });
+
+    it('accepts no handshake for a key announced too long ago', async () => {
+        const { read, persis } = createStore();
+        await registerPendingWebhook(persis, 'key');
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + 11 * 60 * 1000);
+
+        expect(await saveHandshakeSecret(read, persis, 'key', 'secret')).toBe(false);
+    });
+});